@@ -0,0 +1,69 @@
+import esbuild from "esbuild";
+
+// Times the incremental word counter against recounting the whole note, for
+// single-line edits in a long note. Run with `npm run bench`; nothing is
+// asserted, since timings depend on the machine.
+
+const LINE_COUNT = 20000;
+const EDITS = 200;
+
+const LINES = [
+	'Some prose with a [link](https://example.com) and a [[wikilink|label]].',
+	'- A list item about well-known things',
+	'',
+	'```',
+	'code that isn\'t counted',
+	'```',
+	'%% a comment %% then words',
+	'# A heading',
+];
+
+const bundle = await esbuild.build({
+	entryPoints: ['words.ts'],
+	bundle: true,
+	format: 'esm',
+	write: false,
+});
+const { countWords, DEFAULT_WORD_COUNT_OPTIONS, WordCounter } = await import(
+	`data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString('base64')}`
+);
+
+// Seeded so every run edits the same note the same way
+let seed = 1;
+const random = () => {
+	seed = (seed * 1103515245 + 12345) % 2147483648;
+	return seed / 2147483648;
+};
+
+const lines = Array.from({ length: LINE_COUNT }, () => LINES[Math.floor(random() * LINES.length)]);
+const getLine = (line) => lines[line];
+const targets = Array.from({ length: EDITS }, () => Math.floor(random() * LINE_COUNT));
+
+const time = (edit) => {
+	const start = performance.now();
+	for (const line of targets) {
+		lines[line] += ' word';
+		edit(line);
+	}
+	return (performance.now() - start) / EDITS;
+};
+
+let counter = WordCounter.count(LINE_COUNT, getLine, DEFAULT_WORD_COUNT_OPTIONS);
+// Warm up both before timing them
+for (let i = 0; i < 20; i++) {
+	counter = counter.update(i, i, i, getLine);
+	countWords(lines.join('\n'));
+}
+
+const incrementalMs = time((line) => {
+	counter = counter.update(line, line, line, getLine);
+});
+let full = 0;
+const fullMs = time(() => {
+	full = countWords(lines.join('\n'));
+});
+
+console.log(`${LINE_COUNT} lines, ${EDITS} single-line edits`);
+console.log(`  incremental update: ${incrementalMs.toFixed(3)}ms per edit`);
+console.log(`  full count:         ${fullMs.toFixed(3)}ms per edit`);
+console.log(`  speedup:            ${(fullMs / incrementalMs).toFixed(1)}x`);
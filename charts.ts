@@ -0,0 +1,288 @@
+import type { SessionRecord } from "./stats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks shown in the heatmap, including the current one
+const HEATMAP_WEEKS = 53;
+const HEATMAP_CELL = 11;
+const HEATMAP_GAP = 2;
+
+// Sessions shown in the words-per-session trend
+const TREND_SESSIONS = 30;
+
+// Weeks shown in the completion rate chart
+const COMPLETION_WEEKS = 12;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+interface ChartPoint {
+  value: number;
+  title: string;
+}
+
+/**
+ * Local calendar day of a timestamp, used to bucket sessions by day.
+ */
+function dayKey(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function plural(count: number, word: string): string {
+  return `${count.toLocaleString()} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function createChart(container: Element, title: string): HTMLElement {
+  const section = container.createDiv({ cls: "dw-chart" });
+  section.createEl("h4", { text: title });
+  return section;
+}
+
+function createSvgRoot(
+  section: HTMLElement,
+  width: number,
+  height: number
+): SVGSVGElement {
+  return section.createSvg("svg", {
+    cls: "dw-chart-svg",
+    attr: {
+      viewBox: `0 0 ${width} ${height}`,
+      preserveAspectRatio: "xMinYMin meet",
+    },
+  });
+}
+
+function addTitle(el: SVGElement, text: string) {
+  el.createSvg("title").textContent = text;
+}
+
+function addLabel(svg: SVGSVGElement, text: string, x: number, y: number) {
+  svg.createSvg("text", { cls: "dw-chart-label", attr: { x, y } }).textContent =
+    text;
+}
+
+/**
+ * Calendar of the past year, one cell per day, shaded by net words written.
+ * Columns are weeks starting on Sunday, like GitHub's contribution graph.
+ */
+export function renderHeatmap(container: Element, sessions: SessionRecord[]) {
+  const section = createChart(container, "Daily Words");
+
+  const wordsByDay = new Map<string, number>();
+  for (const session of sessions) {
+    if (session.legacy) {
+      continue;
+    }
+    const key = dayKey(session.timestamp);
+    wordsByDay.set(key, (wordsByDay.get(key) ?? 0) + session.netWords);
+  }
+  const maxWords = Math.max(0, ...wordsByDay.values());
+
+  const today = startOfDay(Date.now());
+  const todayDate = new Date(today);
+  const firstDay = new Date(today);
+  firstDay.setDate(
+    todayDate.getDate() - todayDate.getDay() - (HEATMAP_WEEKS - 1) * 7
+  );
+
+  const step = HEATMAP_CELL + HEATMAP_GAP;
+  const svg = createSvgRoot(section, HEATMAP_WEEKS * step, 7 * step);
+
+  const date = new Date(firstDay);
+  for (let week = 0; week < HEATMAP_WEEKS; week++) {
+    for (let weekday = 0; weekday < 7; weekday++) {
+      if (date.getTime() > today) {
+        break;
+      }
+      const words = wordsByDay.get(dayKey(date.getTime())) ?? 0;
+      // Five shades: none, then quarters of the busiest day
+      const level =
+        words > 0 && maxWords > 0 ? Math.ceil((words / maxWords) * 4) : 0;
+      const cell = svg.createSvg("rect", {
+        cls: ["dw-heatmap-cell", `dw-heatmap-level-${level}`],
+        attr: {
+          x: week * step,
+          y: weekday * step,
+          width: HEATMAP_CELL,
+          height: HEATMAP_CELL,
+          rx: 2,
+        },
+      });
+      addTitle(cell, `${date.toLocaleDateString()}: ${plural(words, "word")}`);
+      date.setDate(date.getDate() + 1);
+    }
+  }
+}
+
+/**
+ * Line chart scaled to `max` (or the largest value), with a dot per point
+ * that shows its title on hover.
+ */
+function renderLineChart(
+  section: HTMLElement,
+  points: ChartPoint[],
+  max: number | null,
+  axisLabel: (value: number) => string
+) {
+  const svg = createSvgRoot(section, CHART_WIDTH, CHART_HEIGHT);
+  const top = Math.max(1, max ?? Math.max(...points.map((p) => p.value)));
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  svg.createSvg("line", {
+    cls: "dw-chart-axis",
+    attr: {
+      x1: CHART_PADDING,
+      y1: CHART_HEIGHT - CHART_PADDING,
+      x2: CHART_WIDTH - CHART_PADDING,
+      y2: CHART_HEIGHT - CHART_PADDING,
+    },
+  });
+  addLabel(svg, axisLabel(top), CHART_PADDING, CHART_PADDING - 8);
+
+  const coords = points.map((point, i) => ({
+    x:
+      CHART_PADDING +
+      (points.length === 1
+        ? plotWidth / 2
+        : (plotWidth * i) / (points.length - 1)),
+    y: CHART_HEIGHT - CHART_PADDING - (plotHeight * point.value) / top,
+  }));
+
+  svg.createSvg("polyline", {
+    cls: "dw-chart-line",
+    attr: { points: coords.map((c) => `${c.x},${c.y}`).join(" ") },
+  });
+  coords.forEach((c, i) => {
+    const dot = svg.createSvg("circle", {
+      cls: "dw-chart-dot",
+      attr: { cx: c.x, cy: c.y, r: 3 },
+    });
+    addTitle(dot, points[i].title);
+  });
+}
+
+/**
+ * Net words of each of the most recent sessions, oldest first.
+ */
+export function renderWordsTrend(
+  container: Element,
+  sessions: SessionRecord[]
+) {
+  const section = createChart(container, "Words per Session");
+  const recent = sessions.filter((s) => !s.legacy).slice(-TREND_SESSIONS);
+  if (recent.length === 0) {
+    section.createEl("p", {
+      text: "No sessions with word counts yet.",
+      cls: "dangerous-writing-stats-empty",
+    });
+    return;
+  }
+  renderLineChart(
+    section,
+    recent.map((s) => ({
+      value: s.netWords,
+      title: `${new Date(s.timestamp).toLocaleDateString()}: ${plural(
+        s.netWords,
+        "word"
+      )}`,
+    })),
+    null,
+    (value) => plural(value, "word")
+  );
+}
+
+/**
+ * Share of sessions completed in each of the past weeks. Weeks without
+ * sessions are left out rather than drawn as 0%.
+ */
+export function renderCompletionRate(
+  container: Element,
+  sessions: SessionRecord[]
+) {
+  const section = createChart(container, "Completion Rate by Week");
+  const today = startOfDay(Date.now());
+  const points: ChartPoint[] = [];
+  for (let week = COMPLETION_WEEKS - 1; week >= 0; week--) {
+    const end = today + DAY_MS - week * 7 * DAY_MS;
+    const start = end - 7 * DAY_MS;
+    const weekSessions = sessions.filter(
+      (s) => s.timestamp >= start && s.timestamp < end
+    );
+    if (weekSessions.length === 0) {
+      continue;
+    }
+    const completed = weekSessions.filter((s) => s.completed).length;
+    const rate = Math.round((completed / weekSessions.length) * 100);
+    points.push({
+      value: rate,
+      title: `Week of ${new Date(
+        start
+      ).toLocaleDateString()}: ${rate}% (${completed}/${weekSessions.length})`,
+    });
+  }
+  if (points.length === 0) {
+    section.createEl("p", {
+      text: `No sessions in the past ${COMPLETION_WEEKS} weeks.`,
+      cls: "dangerous-writing-stats-empty",
+    });
+    return;
+  }
+  renderLineChart(section, points, 100, (value) => `${value}%`);
+}
+
+/**
+ * Net words by the hour of day sessions started in.
+ */
+export function renderTimeOfDay(container: Element, sessions: SessionRecord[]) {
+  const section = createChart(container, "Words by Time of Day");
+  const words = new Array<number>(24).fill(0);
+  const counts = new Array<number>(24).fill(0);
+  for (const session of sessions) {
+    if (session.legacy) {
+      continue;
+    }
+    // Records are timestamped when the session ends
+    const start = session.timestamp - session.durationSeconds * 1000;
+    const hour = new Date(start).getHours();
+    words[hour] += session.netWords;
+    counts[hour]++;
+  }
+
+  const svg = createSvgRoot(section, CHART_WIDTH, CHART_HEIGHT);
+  const top = Math.max(1, ...words);
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / 24;
+
+  for (let hour = 0; hour < 24; hour++) {
+    const height = (plotHeight * words[hour]) / top;
+    const x = CHART_PADDING + hour * slot;
+    const bar = svg.createSvg("rect", {
+      cls: "dw-chart-bar",
+      attr: {
+        x: x + 1,
+        y: CHART_HEIGHT - CHART_PADDING - height,
+        width: slot - 2,
+        height,
+      },
+    });
+    addTitle(
+      bar,
+      `${hour}:00–${hour + 1}:00: ${plural(words[hour], "word")} in ${plural(
+        counts[hour],
+        "session"
+      )}`
+    );
+    if (hour % 6 === 0) {
+      addLabel(svg, `${hour}:00`, x, CHART_HEIGHT - CHART_PADDING + 14);
+    }
+  }
+}
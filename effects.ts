@@ -0,0 +1,148 @@
+import { EditorState, Range, StateEffect, StateField } from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  WidgetType,
+} from "@codemirror/view";
+import type { PenaltyEffect } from "./engine";
+
+// How many of the most recent words the scramble penalty shuffles
+const SCRAMBLE_WORD_COUNT = 20;
+
+// Opacity of each band of faded text, from the start of the fade to the end
+// of the session text
+const FADE_BANDS = [0.7, 0.5, 0.3, 0.1];
+
+/**
+ * Show or clear a non-destructive penalty in an editor. The penalty is only
+ * drawn over the text; the document itself never changes.
+ */
+export const setPenaltyEffect = StateEffect.define<PenaltyEffect | null>();
+
+interface PenaltyEffectState {
+  effect: PenaltyEffect | null;
+  decorations: DecorationSet;
+}
+
+class ScrambledWordWidget extends WidgetType {
+  constructor(readonly word: string) {
+    super();
+  }
+
+  eq(other: ScrambledWordWidget): boolean {
+    return other.word === this.word;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement("span");
+    span.className = "dw-scrambled";
+    span.textContent = scramble(this.word);
+    return span;
+  }
+}
+
+/**
+ * Shuffle the inside of a word, keeping its first and last characters. The
+ * shuffle is seeded by the word so redraws don't flicker.
+ */
+function scramble(word: string): string {
+  const chars = Array.from(word);
+  if (chars.length <= 3) {
+    return chars.reverse().join("");
+  }
+  let seed = 0;
+  for (const ch of chars) {
+    seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  }
+  const inner = chars.slice(1, -1);
+  for (let i = inner.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [inner[i], inner[j]] = [inner[j], inner[i]];
+  }
+  return chars[0] + inner.join("") + chars[chars.length - 1];
+}
+
+function buildDecorations(
+  state: EditorState,
+  effect: PenaltyEffect | null
+): DecorationSet {
+  if (!effect || effect.to <= effect.from) {
+    return Decoration.none;
+  }
+  const { from, to } = effect;
+  const ranges: Range<Decoration>[] = [];
+
+  if (effect.penaltyType === "blur") {
+    ranges.push(Decoration.mark({ class: "dw-blurred" }).range(from, to));
+  } else if (effect.penaltyType === "fade") {
+    // The faded part grows back from the end of the session text
+    const fadeFrom = Math.round(to - (to - from) * effect.progress);
+    const bandSize = (to - fadeFrom) / FADE_BANDS.length;
+    FADE_BANDS.forEach((opacity, i) => {
+      const bandFrom = Math.round(fadeFrom + bandSize * i);
+      const bandTo = Math.round(fadeFrom + bandSize * (i + 1));
+      if (bandTo > bandFrom) {
+        ranges.push(
+          Decoration.mark({
+            class: "dw-faded",
+            attributes: { style: `opacity: ${opacity}` },
+          }).range(bandFrom, bandTo)
+        );
+      }
+    });
+  } else if (effect.penaltyType === "scramble") {
+    const text = state.doc.sliceString(from, to);
+    const words = Array.from(text.matchAll(/\S{2,}/g));
+    for (const match of words.slice(-SCRAMBLE_WORD_COUNT)) {
+      const start = from + (match.index ?? 0);
+      ranges.push(
+        Decoration.replace({
+          widget: new ScrambledWordWidget(match[0]),
+        }).range(start, start + match[0].length)
+      );
+    }
+  }
+
+  return Decoration.set(ranges, true);
+}
+
+const penaltyEffectField = StateField.define<PenaltyEffectState>({
+  create: () => ({ effect: null, decorations: Decoration.none }),
+  update(value, tr) {
+    let { effect, decorations } = value;
+    if (tr.docChanged && effect) {
+      effect = {
+        ...effect,
+        from: tr.changes.mapPos(effect.from, 1),
+        to: tr.changes.mapPos(effect.to, -1),
+      };
+      decorations = decorations.map(tr.changes);
+    }
+    for (const e of tr.effects) {
+      if (e.is(setPenaltyEffect)) {
+        effect = e.value;
+        decorations = buildDecorations(tr.state, effect);
+      }
+    }
+    return { effect, decorations };
+  },
+  provide: (field) => [
+    EditorView.decorations.from(field, (value) => value.decorations),
+    // Lock makes the note read-only until the cooldown ends
+    EditorState.readOnly.from(
+      field,
+      (value) => value.effect?.penaltyType === "lock"
+    ),
+    EditorView.editorAttributes.from(field, (value) =>
+      value.effect?.penaltyType === "lock" ? { class: "dw-locked" } : {}
+    ),
+  ],
+});
+
+/**
+ * Editor extension that draws non-destructive penalties. Registered once by
+ * the plugin; penalties are applied per editor with setPenaltyEffect.
+ */
+export const penaltyEffectExtension = [penaltyEffectField];
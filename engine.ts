@@ -0,0 +1,923 @@
+// The session engine is kept free of Obsidian and DOM dependencies so it can
+// run headless: timers come from an injected Clock and the note is read and
+// edited through a TextAdapter.
+import type { SessionConfig } from "./modal";
+import type { PenaltyStep, SoftPenaltyType } from "./settings";
+import type { SessionEndReason } from "./stats";
+import type { AwayReason, FocusPolicy } from "./focus";
+import type { InputKind } from "./integrity";
+import { goalUsesTime, goalUsesWords } from "./goals";
+import { findSessionRegion, isSoftPenalty, planPenalty } from "./penalty";
+
+// How often the session loop runs: the idle deadline, warning level, lock
+// cooldown and fade are checked every frame
+const FRAME_INTERVAL_MS = 50;
+
+// How often goals are checked and listeners updated while nothing else
+// changes
+const TICK_INTERVAL_MS = 1000;
+
+export interface Clock {
+  now(): number;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+}
+
+/**
+ * Access to the notes being written. `getText` returns null when a note
+ * isn't open for editing; `isOpen` answers the same without reading it.
+ * `countWords` must count the way the editor does for `handleChange`.
+ */
+export interface TextAdapter {
+  getText(path: string): string | null;
+  isOpen(path: string): boolean;
+  countWords(text: string): number;
+  replaceRange(path: string, text: string, from: number, to: number): void;
+}
+
+/**
+ * A note's length and word count after an edit, as reported by the editor.
+ * Counting happens incrementally in the editor, so the engine never needs
+ * the whole note on a keystroke.
+ */
+export interface TextChange {
+  length: number;
+  wordCount: number;
+  // Where the added text came from
+  input: InputKind;
+}
+
+/**
+ * A piece of text removed by a penalty. The offset is where it would be
+ * re-inserted into the penalized note; re-inserting pieces from last to
+ * first restores the note exactly.
+ */
+export interface ZappedText {
+  text: string;
+  offset: number;
+}
+
+/**
+ * A non-destructive penalty shown over the note. `from` and `to` cover the
+ * session text when the penalty struck; `progress` runs from 0 to 1 for
+ * penalties that build up while idle (fade) and is 1 otherwise.
+ */
+export interface PenaltyEffect {
+  penaltyType: SoftPenaltyType;
+  filePath: string;
+  from: number;
+  to: number;
+  progress: number;
+}
+
+export interface PenaltyResult {
+  penaltyType: PenaltyStep | SoftPenaltyType;
+  // The note the penalty applied to: the one last typed in
+  filePath: string;
+  // Usually a single piece, but "all" can leave protected blocks such as
+  // code fences standing between removed prose. Empty for non-destructive
+  // penalties.
+  zapped: ZappedText[];
+}
+
+export interface SessionResult {
+  completed: boolean;
+  endReason: SessionEndReason;
+  durationSeconds: number;
+  wordsAtStart: number;
+  wordsAtEnd: number;
+  netWords: number;
+  wordsDeleted: number;
+  charactersTyped: number;
+  // Pasted or inserted rather than typed. Only pasted words still in the
+  // notes count.
+  charactersPasted: number;
+  wordsPasted: number;
+  // Every note written in, starting with the one the session began in
+  filePaths: string[];
+  // Idle lapses penalized during the session
+  strikes: number;
+  // The penalty that ended the session, if any
+  penalty: PenaltyResult | null;
+}
+
+/**
+ * A note taking part in the session, tracked from when it was first opened.
+ */
+interface SessionFile {
+  initialContent: string;
+  initialWordCount: number;
+  // As of the last change seen
+  length: number;
+  wordCount: number;
+}
+
+/**
+ * State carried over from an interrupted session. Only the note the session
+ * started in is recovered.
+ */
+export interface SessionResume {
+  initialContent: string;
+  elapsedMs: number;
+  wordsDeleted: number;
+  charactersTyped: number;
+  charactersPasted: number;
+  wordsPasted: number;
+  strikes: number;
+  pauseTokensUsed: number;
+  revisionMsUsed: number;
+}
+
+export interface SessionEngineListener {
+  // Called from the session loop every tick, and on the next frame after
+  // typing or any other change of state
+  onUpdate(): void;
+  // Idle warning progress from 0 (threshold just passed) to 1 (penalty due),
+  // or null when no warning is showing. Only called when it changes.
+  onWarning(progress: number | null): void;
+  // Called when a penalty strikes but the session continues
+  onStrike(penalty: PenaltyResult): void;
+  // Show or clear a non-destructive penalty
+  onEffect(effect: PenaltyEffect | null): void;
+  // Called once when the session ends on its own
+  onEnd(result: SessionResult): void;
+}
+
+export class SessionEngine {
+  // The note the session started in
+  readonly filePath: string;
+  readonly config: SessionConfig;
+  private text: TextAdapter;
+  private clock: Clock;
+  private listener: SessionEngineListener;
+
+  private active: boolean = false;
+  private startTime: number = 0;
+  private files = new Map<string, SessionFile>();
+  // Penalties apply to the note last typed in
+  private lastTypedPath: string;
+
+  // Session loop: one timer drives everything time-based
+  private loopInterval: number | null = null;
+  private lastTickTime: number = 0;
+  private updateDue: boolean = false;
+  private warningProgress: number | null = null;
+
+  // Idle watchdog: the penalty is due once idle for the timeout while armed
+  private watchdogArmed: boolean = false;
+  private lastActivityTime: number = 0;
+  private charactersTyped: number = 0;
+  private charactersPasted: number = 0;
+  private wordsPasted: number = 0;
+  // Idle time covered by revising under the "revision-budget" policy
+  private revisionMsUsed: number = 0;
+
+  // Escalating penalties
+  private strikes: number = 0;
+  private wordsDeleted: number = 0;
+
+  // Focus handling
+  private awayReasons = new Set<AwayReason>();
+  private awayPolicy: FocusPolicy | null = null;
+  private pausedAt: number | null = null;
+  private pausedMs: number = 0;
+  private pauseTokensUsed: number = 0;
+  // An idle penalty that's due but couldn't be applied yet
+  private pendingPenalty: boolean = false;
+
+  // Non-destructive penalties
+  private effect: PenaltyEffect | null = null;
+  private effectWordCount: number = 0;
+  private lockedUntil: number | null = null;
+
+  constructor(
+    filePath: string,
+    config: SessionConfig,
+    text: TextAdapter,
+    clock: Clock,
+    listener: SessionEngineListener
+  ) {
+    this.filePath = filePath;
+    this.lastTypedPath = filePath;
+    this.config = config;
+    this.text = text;
+    this.clock = clock;
+    this.listener = listener;
+  }
+
+  start(resume?: SessionResume) {
+    const content = this.text.getText(this.filePath) ?? "";
+    this.active = true;
+    if (resume) {
+      // Continue from the interrupted session's snapshot and elapsed time
+      this.startTime = this.clock.now() - resume.elapsedMs;
+      this.wordsDeleted = resume.wordsDeleted;
+      this.charactersTyped = resume.charactersTyped;
+      this.charactersPasted = resume.charactersPasted;
+      this.wordsPasted = resume.wordsPasted;
+      this.revisionMsUsed = resume.revisionMsUsed;
+      this.strikes = resume.strikes;
+      this.pauseTokensUsed = resume.pauseTokensUsed;
+    } else {
+      this.startTime = this.clock.now();
+    }
+    this.addFile(this.filePath, content, resume?.initialContent ?? content);
+
+    this.lastTickTime = this.clock.now();
+    this.loopInterval = this.clock.setInterval(
+      () => this.frame(),
+      FRAME_INTERVAL_MS
+    );
+    this.resetIdleWatchdog();
+  }
+
+  /**
+   * Stop the session without recording a result, e.g. when the writer ends
+   * it manually or the plugin unloads.
+   */
+  stop() {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+    if (this.loopInterval !== null) {
+      this.clock.clearInterval(this.loopInterval);
+      this.loopInterval = null;
+    }
+    this.watchdogArmed = false;
+    this.setWarning(null);
+    this.clearEffect();
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Feed a change to a note in the session's scope. Typed content counts as
+   * activity, and deleting text does if the activity policy allows it.
+   * Holding a key or undoing never resets the idle timer, and pasted or
+   * inserted text only does if the session allows it.
+   */
+  handleChange(path: string, change: TextChange) {
+    if (!this.active) {
+      return;
+    }
+    // A note that changed before it was seen opening starts from here
+    let file = this.files.get(path);
+    if (!file) {
+      const content = this.text.getText(path) ?? "";
+      file = this.addFile(path, content, content);
+    }
+
+    const added = change.length - file.length;
+    const wordsAdded = change.wordCount - file.wordCount;
+    file.length = change.length;
+    file.wordCount = change.wordCount;
+    this.capWordsPasted();
+
+    // Nothing counts as activity while the note is locked
+    if (this.effect?.penaltyType === "lock") {
+      return;
+    }
+    if (added <= 0) {
+      // Deleting or typing over a selection is revising
+      if (change.input === "deleted" || change.input === "typed") {
+        this.handleRevision(false);
+      }
+      return;
+    }
+    const pasted = change.input === "pasted" || change.input === "inserted";
+    if (pasted) {
+      this.charactersPasted += added;
+      this.wordsPasted += Math.max(0, wordsAdded);
+    } else if (change.input !== "restored") {
+      this.charactersTyped += added;
+    }
+    if (
+      change.input === "repeated" ||
+      change.input === "restored" ||
+      (pasted && !this.config.pasteResetsTimer)
+    ) {
+      this.updateDue = true;
+      return;
+    }
+
+    this.lastTypedPath = path;
+    // Any typing lifts a fade; blur and scramble are checked each tick
+    if (this.effect?.penaltyType === "fade") {
+      this.clearEffect();
+    }
+    this.resetIdleWatchdog();
+  }
+
+  /**
+   * Handle the writer moving the cursor in a note in the session's scope,
+   * which counts as revising under the "revision-budget" policy.
+   */
+  handleNavigation() {
+    if (this.active && this.effect?.penaltyType !== "lock") {
+      this.handleRevision(true);
+    }
+  }
+
+  /**
+   * Handle the writer switching notes. Notes in scope join the session,
+   * snapshotted before anything is typed in them; switching to a note out
+   * of scope stops the session. Returns true if the session was stopped.
+   */
+  handleActiveFileChange(path: string | null, inScope: boolean): boolean {
+    if (!this.active || path === null) {
+      return false;
+    }
+    if (!inScope) {
+      this.stop();
+      return true;
+    }
+    if (!this.files.has(path)) {
+      const content = this.text.getText(path);
+      if (content !== null) {
+        this.addFile(path, content, content);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Handle the writer leaving or returning to the editor. The policy for
+   * the reason they left applies until they're back from every reason.
+   * Returns the policy applied when an absence starts, which is "count"
+   * instead of "pause" once pause tokens run out.
+   */
+  handleFocusChange(reason: AwayReason, away: boolean): FocusPolicy | null {
+    if (!this.active) {
+      return null;
+    }
+    if (away) {
+      if (this.awayReasons.has(reason)) {
+        return null;
+      }
+      this.awayReasons.add(reason);
+      if (this.awayReasons.size > 1) {
+        return null;
+      }
+      return this.startAway(this.config.focusPolicies?.[reason] ?? "count");
+    }
+    if (this.awayReasons.delete(reason) && this.awayReasons.size === 0) {
+      this.endAway();
+    }
+    return null;
+  }
+
+  isPaused(): boolean {
+    return this.pausedAt !== null;
+  }
+
+  /**
+   * Pause tokens left this session, or null if pausing is unlimited.
+   */
+  getPauseTokensLeft(): number | null {
+    const tokens = this.config.pauseTokens ?? 0;
+    return tokens > 0 ? Math.max(0, tokens - this.pauseTokensUsed) : null;
+  }
+
+  /**
+   * Total time spent paused so far.
+   */
+  getPausedMs(): number {
+    return (
+      this.pausedMs +
+      (this.pausedAt !== null ? this.clock.now() - this.pausedAt : 0)
+    );
+  }
+
+  getPauseTokensUsed(): number {
+    return this.pauseTokensUsed;
+  }
+
+  /**
+   * Whether an idle penalty is waiting for the writer to come back.
+   */
+  isPenaltyPending(): boolean {
+    return this.pendingPenalty;
+  }
+
+  /**
+   * Notes that took part in the session, starting with the one it began in.
+   */
+  getFilePaths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  /**
+   * Snapshot of the note the session started in.
+   */
+  getInitialContent(): string {
+    return this.files.get(this.filePath)?.initialContent ?? "";
+  }
+
+  getWordsDeleted(): number {
+    return this.wordsDeleted;
+  }
+
+  getCharactersTyped(): number {
+    return this.charactersTyped;
+  }
+
+  getCharactersPasted(): number {
+    return this.charactersPasted;
+  }
+
+  getWordsPasted(): number {
+    return this.wordsPasted;
+  }
+
+  getRevisionMsUsed(): number {
+    return this.revisionMsUsed;
+  }
+
+  /**
+   * Revising time left this session, or null unless the activity policy
+   * is "revision-budget".
+   */
+  getRevisionBudgetLeftMs(): number | null {
+    if (this.config.activityPolicy !== "revision-budget") {
+      return null;
+    }
+    const budgetMs = (this.config.revisionBudgetSeconds ?? 60) * 1000;
+    return Math.max(0, budgetMs - this.revisionMsUsed);
+  }
+
+  getStrikes(): number {
+    return this.strikes;
+  }
+
+  /**
+   * Number of idle lapses the session allows: the length of the ladder for
+   * escalating penalties, null for non-destructive penalties, otherwise one.
+   */
+  getStrikeLimit(): number | null {
+    if (isSoftPenalty(this.config.penaltyType)) {
+      return null;
+    }
+    return this.config.penaltyType === "escalating"
+      ? this.config.escalationLadder.length
+      : 1;
+  }
+
+  getEffect(): PenaltyEffect | null {
+    return this.effect;
+  }
+
+  /**
+   * Time the session has been running, not counting pauses.
+   */
+  getElapsedMs(): number {
+    return this.clock.now() - this.startTime - this.getPausedMs();
+  }
+
+  /**
+   * Time left on the session's timer, or null for word-only goals.
+   */
+  getRemainingMs(): number | null {
+    if (!goalUsesTime(this.config.goalMode)) {
+      return null;
+    }
+    return Math.max(0, this.getDurationMs() - this.getElapsedMs());
+  }
+
+  /**
+   * Net words written so far across every note in the session, or null if
+   * none of them are open.
+   */
+  getWordsWritten(): number | null {
+    const { before, open } = this.countWords();
+    return open ? this.countGoalWords() - before : null;
+  }
+
+  getIdleMs(): number {
+    return this.clock.now() - this.lastActivityTime;
+  }
+
+  getIdleRemainingMs(): number {
+    return Math.max(
+      0,
+      this.config.idleTimeoutSeconds * 1000 - this.getIdleMs()
+    );
+  }
+
+  isWarning(): boolean {
+    return this.getIdleMs() >= this.config.warningThresholdSeconds * 1000;
+  }
+
+  /**
+   * Total words across the session's notes at the start and as of the last
+   * change. Closed notes count with the words they had when last seen.
+   */
+  private countWords(): { before: number; now: number; open: boolean } {
+    let before = 0;
+    let now = 0;
+    let open = false;
+    for (const [path, file] of this.files) {
+      open = open || this.text.isOpen(path);
+      before += file.initialWordCount;
+      now += file.wordCount;
+    }
+    return { before, now, open };
+  }
+
+  // Words across the session's notes that count toward goals and lifting
+  // penalties: pasted words only count if the session allows it
+  private countGoalWords(): number {
+    const { now } = this.countWords();
+    return this.config.pasteCountsTowardGoal ? now : now - this.wordsPasted;
+  }
+
+  // Pasted words can't outnumber the words the session added, so once
+  // deleting or a penalty takes the notes below that, the rest of what was
+  // pasted is gone
+  private capWordsPasted() {
+    const { before, now } = this.countWords();
+    this.wordsPasted = Math.min(this.wordsPasted, Math.max(0, now - before));
+  }
+
+  private addFile(
+    path: string,
+    content: string,
+    initialContent: string
+  ): SessionFile {
+    const initialWordCount = this.text.countWords(initialContent);
+    const file: SessionFile = {
+      initialContent,
+      initialWordCount,
+      length: content.length,
+      wordCount:
+        content === initialContent
+          ? initialWordCount
+          : this.text.countWords(content),
+    };
+    this.files.set(path, file);
+    return file;
+  }
+
+  private getDurationMs(): number {
+    return (this.config.durationMinutes || 5) * 60 * 1000;
+  }
+
+  /**
+   * One pass of the session loop. Time-critical checks run every frame;
+   * goals once per tick. Listeners hear about changes at
+   * most once per frame.
+   */
+  private frame() {
+    if (!this.active) {
+      return;
+    }
+    const now = this.clock.now();
+
+    if (this.lockedUntil !== null && now >= this.lockedUntil) {
+      this.lockedUntil = null;
+      this.clearEffect();
+      this.resetIdleWatchdog();
+    }
+
+    const idleTimeoutMs = this.config.idleTimeoutSeconds * 1000;
+    if (this.watchdogArmed && this.getIdleMs() >= idleTimeoutMs) {
+      this.watchdogArmed = false;
+      this.triggerPenalty();
+      if (!this.active) {
+        return;
+      }
+    }
+
+    if (this.effect?.penaltyType === "fade") {
+      // Fully faded after another idle timeout; typing lifts it
+      const progress = Math.min(
+        1,
+        (this.getIdleMs() - idleTimeoutMs) / idleTimeoutMs
+      );
+      if (progress !== this.effect.progress) {
+        this.setEffect({ ...this.effect, progress });
+      }
+    }
+
+    this.updateWarning();
+
+    if (now - this.lastTickTime >= TICK_INTERVAL_MS) {
+      this.lastTickTime = now;
+      this.tick();
+      if (!this.active) {
+        return;
+      }
+    }
+
+    if (this.updateDue) {
+      this.updateDue = false;
+      this.listener.onUpdate();
+    }
+  }
+
+  private tick() {
+    // Retry a penalty that couldn't be applied, e.g. because the note was
+    // closed, once the writer isn't away under "penalize on return"
+    if (this.pendingPenalty && this.awayPolicy !== "penalize") {
+      this.triggerPenalty();
+      if (!this.active) {
+        return;
+      }
+    }
+    this.liftEffect();
+    this.checkGoals();
+    this.updateDue = true;
+  }
+
+  /**
+   * Complete or fail the session once its goal conditions are settled.
+   * "words-within-time" fails when time runs out first; every other mode
+   * only ends here on success.
+   */
+  private checkGoals() {
+    const goalMode = this.config.goalMode;
+    const timeUp =
+      goalUsesTime(goalMode) && this.getElapsedMs() >= this.getDurationMs();
+    const wordsWritten = goalUsesWords(goalMode)
+      ? this.getWordsWritten()
+      : null;
+    const wordsReached =
+      wordsWritten !== null && wordsWritten >= (this.config.wordCountGoal ?? 0);
+
+    if (goalMode === "time" && timeUp) {
+      this.end(true, "time-goal");
+    } else if (goalMode === "words" && wordsReached) {
+      this.end(true, "word-goal");
+    } else if (goalMode === "words-within-time" && wordsReached) {
+      this.end(true, "word-goal");
+    } else if (goalMode === "words-within-time" && timeUp) {
+      this.end(false, "time-expired");
+    } else if (goalMode === "time-and-words" && timeUp && wordsReached) {
+      this.end(true, "time-and-words");
+    }
+  }
+
+  /**
+   * Reset the idle timer for a deletion or cursor move if the activity
+   * policy counts it. Under "revision-budget" the idle time it covers comes
+   * out of the budget, and revising stops counting once the budget is spent.
+   */
+  private handleRevision(navigation: boolean) {
+    const policy = this.config.activityPolicy ?? "additions";
+    if (
+      policy === "additions" ||
+      (policy === "any-edit" && navigation) ||
+      this.pausedAt !== null
+    ) {
+      return;
+    }
+    if (policy === "revision-budget") {
+      const left = this.getRevisionBudgetLeftMs();
+      if (left === 0) {
+        return;
+      }
+      const idleTimeoutMs = this.config.idleTimeoutSeconds * 1000;
+      this.revisionMsUsed += Math.min(left, this.getIdleMs(), idleTimeoutMs);
+    }
+    this.resetIdleWatchdog();
+  }
+
+  private resetIdleWatchdog() {
+    this.lastActivityTime = this.clock.now();
+    // The watchdog restarts when the pause ends
+    this.watchdogArmed = this.pausedAt === null;
+    this.updateWarning();
+    this.updateDue = true;
+  }
+
+  private updateWarning() {
+    const warningThresholdMs = this.config.warningThresholdSeconds * 1000;
+    const idleTimeoutMs = this.config.idleTimeoutSeconds * 1000;
+    const idleTime = this.getIdleMs();
+
+    if (!this.watchdogArmed || idleTime < warningThresholdMs) {
+      this.setWarning(null);
+    } else {
+      // Progress from 0 (when idle for warningThreshold) to 1 (when idle for idleTimeout)
+      const warningDuration = idleTimeoutMs - warningThresholdMs;
+      this.setWarning(
+        warningDuration > 0
+          ? Math.min(1, (idleTime - warningThresholdMs) / warningDuration)
+          : 1
+      );
+    }
+  }
+
+  private setWarning(progress: number | null) {
+    if (progress !== this.warningProgress) {
+      this.warningProgress = progress;
+      this.listener.onWarning(progress);
+    }
+  }
+
+  private triggerPenalty() {
+    if (!this.active) {
+      return;
+    }
+
+    // Hold the penalty until the writer is back, or until the note it
+    // applies to is open again
+    const path = this.lastTypedPath;
+    const file = this.files.get(path);
+    const currentContent = this.text.getText(path);
+    if (this.awayPolicy === "penalize" || !file || currentContent === null) {
+      this.pendingPenalty = true;
+      this.updateDue = true;
+      return;
+    }
+    this.pendingPenalty = false;
+
+    if (isSoftPenalty(this.config.penaltyType)) {
+      this.applySoftPenalty(this.config.penaltyType, path, currentContent);
+      return;
+    }
+
+    // Escalating penalties climb the ladder with each strike
+    const ladder = this.config.escalationLadder;
+    const penaltyType: PenaltyStep =
+      this.config.penaltyType === "escalating"
+        ? ladder[Math.min(this.strikes, ladder.length - 1)]
+        : (this.config.penaltyType as PenaltyStep);
+    this.strikes++;
+
+    const wordsBefore = file.wordCount;
+
+    // Apply the penalty only to prose written during this session
+    const region = findSessionRegion(file.initialContent, currentContent);
+    const ranges = planPenalty(currentContent, region, penaltyType);
+
+    // Remove from the end so earlier offsets stay valid
+    let penalizedContent = currentContent;
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      const { from, to } = ranges[i];
+      this.text.replaceRange(path, "", from, to);
+      penalizedContent =
+        penalizedContent.slice(0, from) + penalizedContent.slice(to);
+    }
+
+    let removed = 0;
+    const zapped = ranges.map(({ from, to }) => {
+      const piece = {
+        text: currentContent.slice(from, to),
+        offset: from - removed,
+      };
+      removed += to - from;
+      return piece;
+    });
+    const penalty: PenaltyResult = { penaltyType, filePath: path, zapped };
+    const wordsAfter = this.text.countWords(penalizedContent);
+    this.wordsDeleted += wordsBefore - wordsAfter;
+
+    file.length = penalizedContent.length;
+    file.wordCount = wordsAfter;
+    this.capWordsPasted();
+
+    if (this.strikes < this.getStrikeLimit()) {
+      // Not the last strike: give the writer a fresh idle window
+      this.listener.onStrike(penalty);
+      this.resetIdleWatchdog();
+      return;
+    }
+
+    this.end(false, "idle", penalty);
+  }
+
+  private startAway(policy: FocusPolicy): FocusPolicy {
+    if (policy === "pause" && this.getPauseTokensLeft() === 0) {
+      policy = "count";
+    }
+    this.awayPolicy = policy;
+
+    if (policy === "pause") {
+      this.pauseTokensUsed++;
+      this.pausedAt = this.clock.now();
+      this.watchdogArmed = false;
+      this.setWarning(null);
+    }
+    this.updateDue = true;
+    return policy;
+  }
+
+  private endAway() {
+    this.awayPolicy = null;
+    if (this.pausedAt !== null) {
+      this.pausedMs += this.clock.now() - this.pausedAt;
+      this.pausedAt = null;
+      // Coming back from a pause gives a fresh idle window, unless the
+      // note is locked and the unlock restarts it
+      if (this.effect?.penaltyType !== "lock") {
+        this.resetIdleWatchdog();
+      }
+    } else if (this.pendingPenalty) {
+      this.triggerPenalty();
+      return;
+    }
+    this.updateDue = true;
+  }
+
+  /**
+   * Apply a penalty that leaves the text alone. The session keeps running;
+   * the penalty wears off as described in describeSoftPenalty.
+   */
+  private applySoftPenalty(
+    penaltyType: SoftPenaltyType,
+    path: string,
+    content: string
+  ) {
+    this.strikes++;
+    this.clearEffect();
+
+    const region = findSessionRegion(
+      this.files.get(path).initialContent,
+      content
+    );
+    this.effectWordCount = this.countGoalWords();
+    this.setEffect({
+      penaltyType,
+      filePath: path,
+      from: region.from,
+      to: region.to,
+      progress: penaltyType === "fade" ? 0 : 1,
+    });
+    this.listener.onStrike({ penaltyType, filePath: path, zapped: [] });
+
+    if (penaltyType === "lock") {
+      // The idle watchdog stays off while locked and restarts on unlock
+      this.lockedUntil =
+        this.clock.now() + (this.config.lockCooldownSeconds ?? 15) * 1000;
+    } else if (penaltyType !== "fade") {
+      // Each further lapse is another strike over the text so far. A fade
+      // instead deepens in the session loop until the writer types.
+      this.resetIdleWatchdog();
+    }
+  }
+
+  /**
+   * Clear a blur or scramble once enough new words have been written since
+   * it struck. Fades lift as soon as the writer types, and locks after
+   * their cooldown.
+   */
+  private liftEffect() {
+    const effect = this.effect;
+    if (
+      !effect ||
+      (effect.penaltyType !== "blur" && effect.penaltyType !== "scramble")
+    ) {
+      return;
+    }
+    const releaseWords = this.config.softPenaltyReleaseWords ?? 10;
+    if (this.countGoalWords() - this.effectWordCount >= releaseWords) {
+      this.clearEffect();
+    }
+  }
+
+  private setEffect(effect: PenaltyEffect) {
+    this.effect = effect;
+    this.listener.onEffect(effect);
+  }
+
+  private clearEffect() {
+    this.lockedUntil = null;
+    if (this.effect) {
+      this.effect = null;
+      this.listener.onEffect(null);
+    }
+  }
+
+  private end(
+    completed: boolean,
+    endReason: SessionEndReason,
+    penalty?: PenaltyResult
+  ) {
+    const { before, now } = this.countWords();
+    const result: SessionResult = {
+      completed,
+      endReason,
+      durationSeconds: Math.floor(this.getElapsedMs() / 1000),
+      wordsAtStart: before,
+      wordsAtEnd: now,
+      netWords: Math.max(0, now - before),
+      wordsDeleted: this.wordsDeleted,
+      charactersTyped: this.charactersTyped,
+      charactersPasted: this.charactersPasted,
+      wordsPasted: this.wordsPasted,
+      filePaths: this.getFilePaths(),
+      strikes: this.strikes,
+      penalty: penalty && penalty.zapped.length > 0 ? penalty : null,
+    };
+
+    this.stop();
+    this.listener.onEnd(result);
+  }
+}
@@ -0,0 +1,336 @@
+import type { SessionConfig } from "./modal";
+import type { PenaltyType } from "./settings";
+import type { SessionEndReason, SessionRecord } from "./stats";
+import { GOAL_MODE_LABELS } from "./goals";
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (spreadsheets)",
+  json: "JSON (full detail)",
+};
+
+// Columns of the CSV export, in order. Session configuration beyond the goal
+// and penalty only survives a JSON round trip.
+const CSV_COLUMNS = [
+  "date",
+  "timestamp",
+  "file",
+  "otherFiles",
+  "completed",
+  "endReason",
+  "durationSeconds",
+  "netWords",
+  "wordsDeleted",
+  "wordsAtStart",
+  "wordsAtEnd",
+  "charactersTyped",
+  "charactersPasted",
+  "wordsPasted",
+  "strikes",
+  "abandoned",
+  "goalMode",
+  "penaltyType",
+  "legacy",
+  "legacyWordCount",
+  "prompt",
+  "note",
+];
+
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function sessionsToCsv(sessions: SessionRecord[]): string {
+  const rows = sessions.map((s) =>
+    [
+      new Date(s.timestamp).toISOString(),
+      s.timestamp,
+      s.filePath,
+      s.otherFiles?.join(";"),
+      s.completed,
+      s.endReason,
+      s.durationSeconds,
+      s.netWords,
+      s.wordsDeleted,
+      s.wordsAtStart,
+      s.wordsAtEnd,
+      s.charactersTyped,
+      s.charactersPasted,
+      s.wordsPasted,
+      s.strikes,
+      s.abandoned,
+      s.config?.goalMode,
+      s.config?.penaltyType,
+      s.legacy,
+      s.legacyWordCount,
+      s.prompt,
+      s.note,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function sessionsToJson(sessions: SessionRecord[]): string {
+  return JSON.stringify(sessions, null, 2);
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields with commas,
+ * doubled quotes and line breaks.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f !== ""));
+}
+
+// Imported values of these types must be one of their keys
+const PENALTY_TYPES: Record<PenaltyType, true> = {
+  all: true,
+  paragraph: true,
+  sentence: true,
+  escalating: true,
+  blur: true,
+  scramble: true,
+  fade: true,
+  lock: true,
+};
+
+const END_REASONS: Record<SessionEndReason, true> = {
+  "time-goal": true,
+  "word-goal": true,
+  "time-and-words": true,
+  "time-expired": true,
+  idle: true,
+  abandoned: true,
+};
+
+function isKeyOf<T extends string>(
+  value: unknown,
+  keys: Record<T, unknown>
+): value is T {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(keys, value)
+  );
+}
+
+// A session as read from an export, before it's checked
+type ImportedSession = Record<string, unknown>;
+
+function sessionFromCsv(fields: Record<string, string>): ImportedSession {
+  const num = (name: string) =>
+    fields[name] ? Number(fields[name]) : undefined;
+  const optional = (name: string) => (fields[name] ? fields[name] : undefined);
+  return {
+    timestamp: fields.timestamp ? num("timestamp") : Date.parse(fields.date),
+    date: fields.date,
+    durationSeconds: num("durationSeconds"),
+    completed: fields.completed === "true",
+    wordsAtStart: num("wordsAtStart"),
+    wordsAtEnd: num("wordsAtEnd"),
+    netWords: num("netWords"),
+    wordsDeleted: num("wordsDeleted"),
+    charactersTyped: num("charactersTyped"),
+    charactersPasted: num("charactersPasted"),
+    wordsPasted: num("wordsPasted"),
+    filePath: optional("file"),
+    otherFiles: fields.otherFiles ? fields.otherFiles.split(";") : undefined,
+    strikes: num("strikes"),
+    endReason: optional("endReason"),
+    abandoned: fields.abandoned === "true",
+    legacy: fields.legacy === "true",
+    legacyWordCount: num("legacyWordCount"),
+    prompt: optional("prompt"),
+    note: optional("note"),
+    // Only the goal mode and penalty are exported; the rest of the config
+    // comes from the defaults
+    config: fields.goalMode
+      ? { goalMode: fields.goalMode, penaltyType: optional("penaltyType") }
+      : undefined,
+  };
+}
+
+/**
+ * Check an imported session and fill in what's missing: counts default to
+ * 0, and config fields to `defaults`. Throws on an invalid date or a goal
+ * mode, penalty or end reason this version doesn't know.
+ */
+function normalizeSession(
+  session: ImportedSession,
+  defaults: SessionConfig
+): SessionRecord {
+  const count = (name: string) => {
+    const value = session[name];
+    return typeof value === "number" && isFinite(value) ? value : 0;
+  };
+  const optionalCount = (name: string) =>
+    typeof session[name] === "number" ? count(name) : undefined;
+  const optionalText = (name: string) => {
+    const value = session[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+  };
+
+  const timestamp = session.timestamp;
+  if (typeof timestamp !== "number" || !(timestamp > 0)) {
+    throw new Error(
+      `Invalid session date "${session.date ?? session.timestamp ?? ""}"`
+    );
+  }
+  const endReason = optionalText("endReason");
+  if (endReason !== undefined && !isKeyOf(endReason, END_REASONS)) {
+    throw new Error(`Unknown session end reason "${endReason}"`);
+  }
+  const otherFiles = session.otherFiles;
+
+  return {
+    timestamp,
+    durationSeconds: count("durationSeconds"),
+    completed: session.completed === true,
+    wordsAtStart: count("wordsAtStart"),
+    wordsAtEnd: count("wordsAtEnd"),
+    netWords: count("netWords"),
+    wordsDeleted: count("wordsDeleted"),
+    charactersTyped: count("charactersTyped"),
+    charactersPasted: count("charactersPasted"),
+    wordsPasted: count("wordsPasted"),
+    filePath: optionalText("filePath"),
+    otherFiles:
+      Array.isArray(otherFiles) && otherFiles.length > 0
+        ? otherFiles.map(String)
+        : undefined,
+    strikes: optionalCount("strikes"),
+    prompt: optionalText("prompt"),
+    note: optionalText("note"),
+    config: normalizeConfig(session.config, defaults),
+    endReason: isKeyOf(endReason, END_REASONS) ? endReason : undefined,
+    abandoned: session.abandoned === true ? true : undefined,
+    legacy: session.legacy === true ? true : undefined,
+    legacyWordCount: optionalCount("legacyWordCount"),
+  };
+}
+
+function normalizeConfig(
+  config: unknown,
+  defaults: SessionConfig
+): SessionConfig | undefined {
+  if (typeof config !== "object" || config === null) {
+    return undefined;
+  }
+  const merged: SessionConfig = { ...defaults };
+  for (const [key, value] of Object.entries(config)) {
+    if (value !== undefined && key in defaults) {
+      Object.assign(merged, { [key]: value });
+    }
+  }
+  if (!isKeyOf(merged.goalMode, GOAL_MODE_LABELS)) {
+    throw new Error(`Unknown goal mode "${merged.goalMode}"`);
+  }
+  if (!isKeyOf(merged.penaltyType, PENALTY_TYPES)) {
+    throw new Error(`Unknown penalty "${merged.penaltyType}"`);
+  }
+  return merged;
+}
+
+/**
+ * Read sessions exported by `sessionsToCsv` or `sessionsToJson`, filling in
+ * config fields the export lacks from `defaults`. Throws if the file doesn't
+ * look like a session export or holds values this version can't read.
+ */
+export function parseSessions(
+  text: string,
+  format: ExportFormat,
+  defaults: SessionConfig
+): SessionRecord[] {
+  let sessions: unknown[];
+  if (format === "json") {
+    const data = JSON.parse(text);
+    sessions = Array.isArray(data) ? data : data?.sessions;
+    if (
+      !Array.isArray(sessions) ||
+      !sessions.every((s) => typeof s === "object" && s !== null)
+    ) {
+      throw new Error("Not a session history export");
+    }
+  } else {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header || !header.includes("netWords")) {
+      throw new Error("Not a session history export");
+    }
+    sessions = rows.map((row) =>
+      sessionFromCsv(
+        Object.fromEntries(header.map((name, i) => [name, row[i] ?? ""]))
+      )
+    );
+  }
+  return sessions.map((session: ImportedSession) =>
+    normalizeSession(session, defaults)
+  );
+}
+
+function sessionKey(session: SessionRecord): string {
+  return `${session.timestamp}|${session.filePath ?? ""}`;
+}
+
+/**
+ * Add imported sessions to the history, skipping any that ended at the same
+ * time in the same note as a session already there. The result is in date
+ * order.
+ */
+export function mergeSessions(
+  existing: SessionRecord[],
+  incoming: SessionRecord[]
+): { sessions: SessionRecord[]; added: number; skipped: number } {
+  const keys = new Set(existing.map(sessionKey));
+  const added: SessionRecord[] = [];
+  for (const session of incoming) {
+    const key = sessionKey(session);
+    if (!keys.has(key)) {
+      keys.add(key);
+      added.push(session);
+    }
+  }
+  return {
+    sessions: [...existing, ...added].sort((a, b) => a.timestamp - b.timestamp),
+    added: added.length,
+    skipped: incoming.length - added.length,
+  };
+}
@@ -0,0 +1,49 @@
+import { Plugin } from "obsidian";
+
+// Ways the writer can leave the editor during a session
+export type AwayReason = "window" | "modal" | "pane";
+
+/**
+ * What happens to the idle timer while the writer is away: pause it (using
+ * up a pause token), keep counting and penalize as usual, or keep counting
+ * but hold the penalty until the writer comes back.
+ */
+export type FocusPolicy = "pause" | "count" | "penalize";
+
+export type FocusPolicies = Record<AwayReason, FocusPolicy>;
+
+export const FOCUS_POLICY_LABELS: Record<FocusPolicy, string> = {
+  pause: "Pause the session",
+  count: "Keep counting",
+  penalize: "Penalize on return",
+};
+
+export const DEFAULT_FOCUS_POLICIES: FocusPolicies = {
+  window: "pause",
+  modal: "pause",
+  pane: "count",
+};
+
+/**
+ * Watch for the app window losing focus and for modals (including the
+ * command palette) opening. Pane switches are reported by the plugin from
+ * active-leaf-change.
+ */
+export function watchFocus(
+  plugin: Plugin,
+  onChange: (reason: AwayReason, away: boolean) => void
+) {
+  plugin.registerDomEvent(window, "blur", () => onChange("window", true));
+  plugin.registerDomEvent(window, "focus", () => onChange("window", false));
+
+  let modalOpen = false;
+  const observer = new MutationObserver(() => {
+    const open = document.body.querySelector(".modal-container") !== null;
+    if (open !== modalOpen) {
+      modalOpen = open;
+      onChange("modal", open);
+    }
+  });
+  observer.observe(document.body, { childList: true });
+  plugin.register(() => observer.disconnect());
+}
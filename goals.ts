@@ -0,0 +1,44 @@
+import type { SessionConfig } from "./modal";
+
+/**
+ * How a session's goals combine:
+ * - "time": complete when the duration has elapsed
+ * - "words": complete when the word goal is reached
+ * - "words-within-time": complete when the word goal is reached, fail if
+ *   the duration runs out first
+ * - "time-and-words": complete once the duration has elapsed and the word
+ *   goal is reached, in either order
+ */
+export type GoalMode =
+  | "time"
+  | "words"
+  | "words-within-time"
+  | "time-and-words";
+
+export const GOAL_MODE_LABELS: Record<GoalMode, string> = {
+  time: "Time",
+  words: "Words",
+  "words-within-time": "Words within time",
+  "time-and-words": "Time and words",
+};
+
+export function goalUsesTime(mode: GoalMode): boolean {
+  return mode !== "words";
+}
+
+export function goalUsesWords(mode: GoalMode): boolean {
+  return mode !== "time";
+}
+
+export function describeGoal(config: SessionConfig): string {
+  switch (config.goalMode) {
+    case "words":
+      return `${config.wordCountGoal} words`;
+    case "words-within-time":
+      return `${config.wordCountGoal} words within ${config.durationMinutes} minutes`;
+    case "time-and-words":
+      return `at least ${config.durationMinutes} minutes and ${config.wordCountGoal} words`;
+    default:
+      return `${config.durationMinutes} minutes`;
+  }
+}
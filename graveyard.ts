@@ -0,0 +1,191 @@
+import { App, Modal, Notice, TFile } from "obsidian";
+import DangerousWritingPlugin from "./main";
+import { PenaltyStep } from "./settings";
+
+/**
+ * Text removed by a penalty, kept so it can be recovered later.
+ */
+export interface ZappedChunk {
+  id: string;
+  filePath: string;
+  timestamp: number;
+  penaltyType: PenaltyStep;
+  text: string;
+  // Offset in the note where the text was removed
+  offset: number;
+}
+
+export function createZappedChunk(
+  filePath: string,
+  penaltyType: PenaltyStep,
+  text: string,
+  offset: number
+): ZappedChunk {
+  const timestamp = Date.now();
+  return {
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    filePath,
+    timestamp,
+    penaltyType,
+    text,
+    offset,
+  };
+}
+
+/**
+ * Drop chunks older than the retention period. A retention of 0 days keeps
+ * everything.
+ */
+export function pruneGraveyard(
+  graveyard: ZappedChunk[],
+  retentionDays: number,
+  now: number = Date.now()
+): ZappedChunk[] {
+  if (retentionDays <= 0) {
+    return graveyard;
+  }
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  return graveyard.filter((chunk) => chunk.timestamp >= cutoff);
+}
+
+export class GraveyardModal extends Modal {
+  plugin: DangerousWritingPlugin;
+  selectedId: string | null;
+
+  constructor(
+    app: App,
+    plugin: DangerousWritingPlugin,
+    selectedId: string | null = null
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.selectedId = selectedId;
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+    contentEl.addClass("dw-graveyard");
+
+    this.setTitle("Zapped Content");
+
+    const chunks = this.plugin.graveyard.slice().reverse();
+    if (chunks.length === 0) {
+      contentEl.createEl("p", {
+        text: "Nothing has been zapped yet.",
+        cls: "dangerous-writing-stats-empty",
+      });
+      return;
+    }
+
+    const selected =
+      chunks.find((chunk) => chunk.id === this.selectedId) ?? chunks[0];
+
+    const list = contentEl.createDiv({ cls: "dw-graveyard-list" });
+    for (const chunk of chunks) {
+      const item = list.createDiv({ cls: "dw-graveyard-item" });
+      item.toggleClass("is-active", chunk.id === selected.id);
+      const date = new Date(chunk.timestamp);
+      item.createEl("span", {
+        text: `${date.toLocaleDateString()} ${date.toLocaleTimeString([], {
+          hour: "2-digit",
+          minute: "2-digit",
+        })}`,
+        cls: "dw-graveyard-date",
+      });
+      item.createEl("span", {
+        text: chunk.filePath,
+        cls: "dw-graveyard-file",
+      });
+      item.createEl("span", {
+        text: this.describePenalty(chunk.penaltyType),
+        cls: "dw-graveyard-penalty",
+      });
+      item.onclick = () => {
+        this.selectedId = chunk.id;
+        this.render();
+      };
+    }
+
+    contentEl.createEl("pre", {
+      text: selected.text,
+      cls: "dw-graveyard-preview",
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+
+    const deleteBtn = btnRow.createEl("button", {
+      text: "Delete",
+      cls: "dw-btn",
+    });
+    deleteBtn.onclick = async () => {
+      this.plugin.graveyard = this.plugin.graveyard.filter(
+        (chunk) => chunk.id !== selected.id
+      );
+      await this.plugin.saveSettings();
+      this.selectedId = null;
+      this.render();
+    };
+
+    const copyBtn = btnRow.createEl("button", {
+      text: "Copy",
+      cls: "dw-btn",
+    });
+    copyBtn.onclick = async () => {
+      await navigator.clipboard.writeText(selected.text);
+      new Notice("Zapped text copied to clipboard");
+    };
+
+    const reinsertBtn = btnRow.createEl("button", {
+      text: "Re-insert",
+      cls: "dw-btn dw-btn-cta",
+    });
+    reinsertBtn.onclick = async () => {
+      if (await this.reinsert(selected)) {
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Put a chunk back into its original note at the position it was zapped
+   * from. Returns false if the note no longer exists.
+   */
+  private async reinsert(chunk: ZappedChunk): Promise<boolean> {
+    const file = this.app.vault.getAbstractFileByPath(chunk.filePath);
+    if (!(file instanceof TFile)) {
+      new Notice(`${chunk.filePath} no longer exists. Copy the text instead.`);
+      return false;
+    }
+
+    await this.app.vault.process(file, (data) => {
+      const offset = Math.min(chunk.offset, data.length);
+      return data.slice(0, offset) + chunk.text + data.slice(offset);
+    });
+    this.plugin.graveyard = this.plugin.graveyard.filter(
+      (c) => c.id !== chunk.id
+    );
+    await this.plugin.saveSettings();
+    new Notice("Zapped text restored");
+    return true;
+  }
+
+  private describePenalty(penaltyType: PenaltyStep): string {
+    return penaltyType === "all"
+      ? "Session text"
+      : penaltyType === "paragraph"
+      ? "Paragraph"
+      : penaltyType === "word"
+      ? "Word"
+      : "Sentence";
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
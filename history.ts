@@ -0,0 +1,109 @@
+import { GoalMode } from "./goals";
+import type { SessionRecord } from "./stats";
+
+export type HistoryStatus = "all" | "completed" | "failed";
+
+export type HistorySortKey = "date" | "words" | "duration";
+
+export const HISTORY_STATUS_LABELS: Record<HistoryStatus, string> = {
+  all: "All sessions",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+/**
+ * Filters for the session history table. Dates are "YYYY-MM-DD" in local
+ * time and empty when unset; an empty file matches every note.
+ */
+export interface HistoryFilter {
+  from: string;
+  to: string;
+  status: HistoryStatus;
+  file: string;
+  goalMode: GoalMode | "all";
+}
+
+export interface HistorySort {
+  key: HistorySortKey;
+  descending: boolean;
+}
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+  from: "",
+  to: "",
+  status: "all",
+  file: "",
+  goalMode: "all",
+};
+
+export const DEFAULT_HISTORY_SORT: HistorySort = {
+  key: "date",
+  descending: true,
+};
+
+/**
+ * Every note a session wrote in, starting with the one it started in.
+ */
+export function sessionFiles(session: SessionRecord): string[] {
+  return session.filePath
+    ? [session.filePath, ...(session.otherFiles ?? [])]
+    : [];
+}
+
+// Start of a local "YYYY-MM-DD" day, or null when unset or invalid
+function parseDay(day: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) {
+    return null;
+  }
+  return new Date(
+    parseInt(match[1]),
+    parseInt(match[2]) - 1,
+    parseInt(match[3])
+  ).getTime();
+}
+
+export function filterSessions(
+  sessions: SessionRecord[],
+  filter: HistoryFilter
+): SessionRecord[] {
+  const from = parseDay(filter.from);
+  const toDay = parseDay(filter.to);
+  // The end date is inclusive
+  const to = toDay !== null ? toDay + 24 * 60 * 60 * 1000 : null;
+  return sessions.filter(
+    (s) =>
+      (from === null || s.timestamp >= from) &&
+      (to === null || s.timestamp < to) &&
+      (filter.status === "all" ||
+        s.completed === (filter.status === "completed")) &&
+      (filter.file === "" || sessionFiles(s).includes(filter.file)) &&
+      (filter.goalMode === "all" || s.config?.goalMode === filter.goalMode)
+  );
+}
+
+function sortValue(session: SessionRecord, key: HistorySortKey): number {
+  switch (key) {
+    case "date":
+      return session.timestamp;
+    case "words":
+      // Legacy sessions don't know their words and sort first
+      return session.legacy ? -1 : session.netWords;
+    case "duration":
+      return session.durationSeconds;
+  }
+}
+
+export function sortSessions(
+  sessions: SessionRecord[],
+  sort: HistorySort
+): SessionRecord[] {
+  const direction = sort.descending ? -1 : 1;
+  return sessions
+    .slice()
+    .sort(
+      (a, b) =>
+        direction * (sortValue(a, sort.key) - sortValue(b, sort.key)) ||
+        b.timestamp - a.timestamp
+    );
+}
@@ -0,0 +1,115 @@
+import { Transaction } from "@codemirror/state";
+import { EditorView, ViewUpdate } from "@codemirror/view";
+
+/**
+ * Where a change came from: typed at the keyboard, deleted with backspace,
+ * delete or cut, pasted or dropped, inserted by autocomplete, a template or
+ * another plugin, undone or redone, or a key held down.
+ */
+export type InputKind =
+  | "typed"
+  | "deleted"
+  | "pasted"
+  | "inserted"
+  | "restored"
+  | "repeated";
+
+/**
+ * What keeps the idle timer from running out besides adding text: nothing,
+ * any edit including deletions, or deleting and moving the cursor until a
+ * per-session budget of revising time runs out.
+ */
+export type ActivityPolicy = "additions" | "any-edit" | "revision-budget";
+
+export const ACTIVITY_POLICY_LABELS: Record<ActivityPolicy, string> = {
+  additions: "Only adding text",
+  "any-edit": "Any edit, including deleting",
+  "revision-budget": "Deleting and moving the cursor, up to a budget",
+};
+
+// Typing the same character more times in a row than this looks like a held
+// key rather than writing
+const REPEAT_LIMIT = 3;
+
+// A change with no user event adding more characters than this looks like a
+// template or another plugin inserting text. Smaller ones are left as typing,
+// since Vim mode, list continuation and some input methods edit that way.
+const INSERT_LIMIT = 20;
+
+/**
+ * Classify the text added by one editor transaction.
+ */
+export function classifyTransaction(tr: Transaction): InputKind {
+  if (tr.isUserEvent("input.paste") || tr.isUserEvent("input.drop")) {
+    return "pasted";
+  }
+  if (tr.isUserEvent("delete")) {
+    return "deleted";
+  }
+  if (tr.isUserEvent("undo") || tr.isUserEvent("redo")) {
+    return "restored";
+  }
+  if (tr.isUserEvent("input.complete")) {
+    return "inserted";
+  }
+
+  let insertedLength = 0;
+  let repeated = false;
+  tr.changes.iterChanges((fromA, toA, fromB, toB, inserted) => {
+    insertedLength += toB - fromB;
+    const text = inserted.toString();
+    const char = Array.from(text)[0];
+    if (!char || text !== char.repeat(text.length / char.length)) {
+      return;
+    }
+    const run = tr.newDoc.sliceString(
+      Math.max(0, toB - (REPEAT_LIMIT + 1) * char.length),
+      toB
+    );
+    if (run === char.repeat(REPEAT_LIMIT + 1)) {
+      repeated = true;
+    }
+  });
+  if (
+    tr.annotation(Transaction.userEvent) === undefined &&
+    insertedLength > INSERT_LIMIT
+  ) {
+    return "inserted";
+  }
+  return repeated ? "repeated" : "typed";
+}
+
+// An update mixing kinds counts as the first of these it contains
+const INPUT_KIND_ORDER: InputKind[] = [
+  "pasted",
+  "inserted",
+  "restored",
+  "repeated",
+  "deleted",
+];
+
+/**
+ * Classify the text added by an editor update.
+ */
+export function classifyInput(update: ViewUpdate): InputKind {
+  const kinds = update.transactions
+    .filter((tr) => tr.docChanged)
+    .map(classifyTransaction);
+  return INPUT_KIND_ORDER.find((kind) => kinds.includes(kind)) ?? "typed";
+}
+
+/**
+ * Editor extension that reports the writer moving the cursor or changing
+ * the selection without editing the note.
+ */
+export function navigationExtension(onNavigate: (update: ViewUpdate) => void) {
+  return EditorView.updateListener.of((update) => {
+    if (
+      update.selectionSet &&
+      !update.docChanged &&
+      update.transactions.some((tr) => tr.isUserEvent("select"))
+    ) {
+      onNavigate(update);
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import { SessionConfig } from "./modal";
+import { describeGoal } from "./goals";
+
+// How often the in-progress session is written to the journal file
+export const JOURNAL_CHECKPOINT_INTERVAL_MS = 5000;
+
+// Kept next to data.json so checkpoints don't rewrite the session history.
+// The note as it was before the session is written once, to its own file.
+export const JOURNAL_FILE = "journal.json";
+export const JOURNAL_SNAPSHOT_FILE = "journal-snapshot.md";
+
+/**
+ * Snapshot of an in-progress session, saved periodically so a sprint
+ * interrupted by a crash, reload or plugin disable can be recovered. There's
+ * no copy of the note's latest content: Obsidian saves the note itself as it
+ * is edited, and recovery reads it from there.
+ */
+export interface SessionJournal {
+  filePath: string;
+  config: SessionConfig;
+  startTime: number;
+  initialContent: string;
+  checkpointTime: number;
+  wordsDeleted: number;
+  charactersTyped: number;
+  strikes: number;
+  pausedMs: number;
+  pauseTokensUsed: number;
+  charactersPasted: number;
+  wordsPasted: number;
+  revisionMsUsed: number;
+}
+
+/**
+ * Time the session had been running when the last checkpoint was written,
+ * not counting pauses.
+ */
+export function journalElapsedMs(journal: SessionJournal): number {
+  return Math.max(
+    0,
+    journal.checkpointTime - journal.startTime - journal.pausedMs
+  );
+}
+
+/**
+ * One-line description of the interrupted session for the recovery prompt.
+ */
+export function describeJournal(journal: SessionJournal): string {
+  const started = new Date(journal.startTime);
+  const elapsedSeconds = Math.floor(journalElapsedMs(journal) / 1000);
+  const minutes = Math.floor(elapsedSeconds / 60);
+  const seconds = elapsedSeconds % 60;
+  const goal = describeGoal(journal.config);
+  return `Session (${goal}) in "${
+    journal.filePath
+  }", started ${started.toLocaleString()} and interrupted after ${minutes}m ${seconds}s.`;
+}
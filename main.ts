@@ -5,52 +5,138 @@ import {
   Plugin,
   TFile,
   WorkspaceLeaf,
+  editorInfoField,
+  normalizePath,
 } from "obsidian";
 import {
   DangerousWritingSettingTab,
   DangerousWritingSettings,
   DEFAULT_SETTINGS,
+  PenaltyStep,
   PenaltyType,
+  SessionPreset,
 } from "./settings";
 import {
   SessionConfigModal,
   FirstTimeWarningModal,
   SessionConfig,
+  SessionRecoveryModal,
+  RecoveryAction,
+  sessionConfigFromPreset,
+  ExportModal,
+  ExportOptions,
+  ImportFileModal,
 } from "./modal";
-import { StatsView, VIEW_TYPE_STATS, SessionRecord } from "./stats";
+import {
+  ExportFormat,
+  mergeSessions,
+  parseSessions,
+  sessionsToCsv,
+  sessionsToJson,
+} from "./exchange";
+import { filterSessions, DEFAULT_HISTORY_FILTER } from "./history";
+import { describeGoal, goalUsesWords } from "./goals";
+import {
+  StatsView,
+  VIEW_TYPE_STATS,
+  SessionRecord,
+  migrateSessions,
+} from "./stats";
+import {
+  Clock,
+  PenaltyEffect,
+  PenaltyResult,
+  SessionEngine,
+  SessionResult,
+} from "./engine";
+import { WordCountOptions, countWords } from "./words";
+import { describeSoftPenalty, isSoftPenalty } from "./penalty";
+import { penaltyEffectExtension, setPenaltyEffect } from "./effects";
+import { wordCountExtension } from "./wordcount";
+import { Extension } from "@codemirror/state";
+import { classifyInput, navigationExtension } from "./integrity";
+import { EditorView } from "@codemirror/view";
+import { describeScope, isInScope } from "./scope";
+import { AwayReason, watchFocus } from "./focus";
+import { computeStreaks } from "./streaks";
+import { buildScratchNote } from "./scratch";
+import {
+  BUILT_IN_PROMPTS,
+  formatPrompt,
+  loadUserPrompts,
+  pickPrompt,
+  renderNotePath,
+} from "./prompts";
+import {
+  appendToDailyNote,
+  renderSummary,
+  updateSessionFrontmatter,
+} from "./summary";
+import {
+  ZappedChunk,
+  GraveyardModal,
+  createZappedChunk,
+  pruneGraveyard,
+} from "./graveyard";
+import {
+  SessionJournal,
+  JOURNAL_CHECKPOINT_INTERVAL_MS,
+  JOURNAL_FILE,
+  JOURNAL_SNAPSHOT_FILE,
+  journalElapsedMs,
+} from "./journal";
+
+// What each penalty removed, for the notices shown when it strikes
+const PENALTY_STEP_NOTICES: Record<PenaltyStep, string> = {
+  word: "Last word",
+  sentence: "Last sentence",
+  paragraph: "Last paragraph",
+  all: "Everything written this session",
+};
+
+// Clock backed by the window timers used everywhere else in Obsidian
+const windowClock: Clock = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (id) => window.clearInterval(id),
+};
 
 interface PluginData {
   settings: DangerousWritingSettings;
   sessions: SessionRecord[];
+  graveyard?: ZappedChunk[];
 }
 
 export default class DangerousWritingPlugin extends Plugin {
   settings: DangerousWritingSettings;
   sessions: SessionRecord[] = [];
+  graveyard: ZappedChunk[] = [];
+
+  // In-progress session saved to its own file for crash recovery
+  private journal: SessionJournal | null = null;
 
   // Session state
-  private sessionActive: boolean = false;
-  private sessionStartTime: number = 0;
-  private sessionDurationMs: number = 0;
-  private wordCountGoal: number | null = null;
-  private initialWordCount: number = 0;
-  private activeFile: TFile | null = null;
-  private initialContent: string = "";
-  private sessionInterval: number | null = null;
-
-  // Idle watchdog
-  private idleWatchdogTimeout: number | null = null;
-  private lastActivityTime: number = 0;
-  private lastContentLength: number = 0;
+  private engine: SessionEngine | null = null;
   private warningOverlay: HTMLElement | null = null;
 
   // Status bar
   private statusBarEl: HTMLElement | null = null;
-  private statusBarInterval: number | null = null;
 
   // Dynamic styles
   private styleEl: HTMLStyleElement | null = null;
 
+  // Commands registered for each session preset
+  private presetCommandIds: string[] = [];
+
+  // Note created by Zap for the current session (a new note or a prompt
+  // note) and its initial content, cleaned up if nothing is kept
+  private scratchNote: { path: string; content: string } | null = null;
+
+  // Editor extension counting words with the rules in effect for the
+  // current session, and those rules
+  private wordCountExtension: Extension[] = [];
+  private wordCountOptions: WordCountOptions | null = null;
+
   async onload() {
     await this.loadSettings();
 
@@ -58,10 +144,7 @@ export default class DangerousWritingPlugin extends Plugin {
     this.updateWarningStyles();
 
     // Register stats view
-    this.registerView(
-      VIEW_TYPE_STATS,
-      (leaf) => new StatsView(leaf, this.sessions)
-    );
+    this.registerView(VIEW_TYPE_STATS, (leaf) => new StatsView(leaf, this));
 
     // Show first-time warning if needed
     if (this.settings.showFirstTimeWarning) {
@@ -85,21 +168,51 @@ export default class DangerousWritingPlugin extends Plugin {
       },
     });
 
+    // Add command to start a session on a random writing prompt
+    this.addCommand({
+      id: "start-dangerous-writing-prompt",
+      name: "Start Zap session with prompt",
+      callback: () => {
+        this.startPromptSession();
+      },
+    });
+
+    // Add command to start a session in a new note
+    this.addCommand({
+      id: "start-dangerous-writing-new-note",
+      name: "Start Zap session in new note",
+      callback: () => {
+        this.startScratchSession();
+      },
+    });
+
     // Add command to stop session
     this.addCommand({
       id: "stop-dangerous-writing",
       name: "Stop Zap writing session",
       checkCallback: (checking: boolean) => {
         if (checking) {
-          return this.sessionActive;
+          return this.engine !== null;
         }
-        if (this.sessionActive) {
-          this.stopSession(true);
+        if (this.engine) {
+          this.stopSession();
         }
         return true;
       },
     });
 
+    // Add a start command for each session preset
+    this.registerPresetCommands();
+
+    // Add command to browse zapped content
+    this.addCommand({
+      id: "browse-zapped-content",
+      name: "Browse zapped content",
+      callback: () => {
+        new GraveyardModal(this.app, this).open();
+      },
+    });
+
     // Add command to open stats
     this.addCommand({
       id: "open-dangerous-writing-stats",
@@ -109,21 +222,43 @@ export default class DangerousWritingPlugin extends Plugin {
       },
     });
 
-    // Register editor change event
-    this.registerEvent(
-      this.app.workspace.on(
-        "editor-change",
-        (editor: Editor, info: MarkdownView | { file: TFile }) => {
-          if (this.sessionActive) {
-            const currentLength = editor.getValue().length;
-            // Only reset watchdog if content was ADDED (not deleted via backspace)
-            if (currentLength > this.lastContentLength) {
-              this.resetIdleWatchdog();
-            }
-            this.lastContentLength = currentLength;
-          }
+    // Add commands to export and import the session history
+    this.addCommand({
+      id: "export-sessions-csv",
+      name: "Export session history to CSV",
+      callback: () => {
+        this.openExportModal("csv");
+      },
+    });
+
+    this.addCommand({
+      id: "export-sessions-json",
+      name: "Export session history to JSON",
+      callback: () => {
+        this.openExportModal("json");
+      },
+    });
+
+    this.addCommand({
+      id: "import-sessions",
+      name: "Import session history",
+      callback: () => {
+        this.openImportModal();
+      },
+    });
+
+    // Count words as notes are edited and feed each change to the session
+    this.applyWordCountOptions();
+    this.registerEditorExtension(this.wordCountExtension);
+
+    // Moving the cursor can count as revising, depending on the session
+    this.registerEditorExtension(
+      navigationExtension((update) => {
+        const file = update.state.field(editorInfoField, false)?.file;
+        if (this.engine && file && this.isInScope(file)) {
+          this.engine.handleNavigation();
         }
-      )
+      })
     );
 
     // Register active leaf change event (note switching)
@@ -131,35 +266,62 @@ export default class DangerousWritingPlugin extends Plugin {
       this.app.workspace.on(
         "active-leaf-change",
         (leaf: WorkspaceLeaf | null) => {
-          if (this.sessionActive && leaf) {
-            const view = leaf.view;
-            if (view instanceof MarkdownView) {
-              const currentFile = view.file;
-              if (
-                this.activeFile &&
-                currentFile &&
-                currentFile.path !== this.activeFile.path
-              ) {
-                new Notice("Switched files during session - session ended");
-                this.stopSession(false);
-              }
+          if (!this.engine || !leaf) {
+            return;
+          }
+          // Sidebar panes and other non-note views count as being away
+          const inNote = leaf.view instanceof MarkdownView;
+          this.handleFocusChange("pane", !inNote);
+          if (this.engine && leaf.view instanceof MarkdownView) {
+            const file = leaf.view.file;
+            if (
+              this.engine.handleActiveFileChange(
+                file?.path ?? null,
+                file ? this.isInScope(file) : false
+              )
+            ) {
+              new Notice(
+                "Switched to a note outside the session scope - session ended"
+              );
+              this.stopSession();
             }
           }
         }
       )
     );
 
+    // Apply the focus policies when the window blurs or a dialog opens
+    watchFocus(this, (reason, away) => this.handleFocusChange(reason, away));
+
+    // Draw non-destructive penalties in the editor
+    this.registerEditorExtension(penaltyEffectExtension);
+
     // Add settings tab
     this.addSettingTab(new DangerousWritingSettingTab(this.app, this));
 
     // Initialize status bar
     this.statusBarEl = this.addStatusBarItem();
     this.updateStatusBar();
+    // Keep the streak current across the day rollover between sessions
+    this.registerInterval(
+      window.setInterval(() => {
+        if (!this.engine) {
+          this.updateStatusBar();
+        }
+      }, 60 * 1000)
+    );
+
+    // Offer to recover a session interrupted by a crash or reload
+    this.app.workspace.onLayoutReady(() => {
+      this.offerSessionRecovery();
+    });
   }
 
   onunload() {
-    if (this.sessionActive) {
-      this.stopSession(false);
+    if (this.engine) {
+      // Keep the journal so the session can be recovered on next load
+      this.checkpointJournal();
+      this.stopSession(true);
     }
     this.cleanup();
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_STATS);
@@ -168,17 +330,194 @@ export default class DangerousWritingPlugin extends Plugin {
   async loadSettings() {
     const data = (await this.loadData()) as PluginData | null;
     this.settings = Object.assign({}, DEFAULT_SETTINGS, data?.settings);
-    this.sessions = data?.sessions || [];
+    this.sessions = migrateSessions(data?.sessions || []);
+    this.journal = await this.loadJournal();
+    this.graveyard = pruneGraveyard(
+      data?.graveyard || [],
+      this.settings.graveyardRetentionDays
+    );
   }
 
   async saveSettings() {
     const data: PluginData = {
       settings: this.settings,
       sessions: this.sessions,
+      graveyard: this.graveyard,
     };
     await this.saveData(data);
   }
 
+  private getPluginPath(file: string): string {
+    return normalizePath(`${this.manifest.dir}/${file}`);
+  }
+
+  private async loadJournal(): Promise<SessionJournal | null> {
+    const adapter = this.app.vault.adapter;
+    const path = this.getPluginPath(JOURNAL_FILE);
+    const snapshotPath = this.getPluginPath(JOURNAL_SNAPSHOT_FILE);
+    try {
+      if (
+        !(await adapter.exists(path)) ||
+        !(await adapter.exists(snapshotPath))
+      ) {
+        return null;
+      }
+      return {
+        ...JSON.parse(await adapter.read(path)),
+        initialContent: await adapter.read(snapshotPath),
+      };
+    } catch (error) {
+      console.error("Zap: unable to read the session journal", error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the journal to its own files, or remove them when no session is
+   * in progress, so checkpoints don't rewrite the session history. The
+   * pre-session snapshot is only written with `withSnapshot`, when a session
+   * begins; checkpoints leave it alone.
+   */
+  private async saveJournal(withSnapshot = false) {
+    const adapter = this.app.vault.adapter;
+    const path = this.getPluginPath(JOURNAL_FILE);
+    const snapshotPath = this.getPluginPath(JOURNAL_SNAPSHOT_FILE);
+    try {
+      if (this.journal) {
+        const { initialContent, ...checkpoint } = this.journal;
+        // The snapshot goes first so a checkpoint never lacks one
+        if (withSnapshot) {
+          await adapter.write(snapshotPath, initialContent);
+        }
+        await adapter.write(path, JSON.stringify(checkpoint));
+      } else {
+        for (const file of [path, snapshotPath]) {
+          if (await adapter.exists(file)) {
+            await adapter.remove(file);
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Zap: unable to save the session journal", error);
+    }
+  }
+
+  registerPresetCommands() {
+    for (const id of this.presetCommandIds) {
+      this.removeCommand(id);
+    }
+    this.presetCommandIds = [];
+
+    for (const preset of this.settings.presets) {
+      const id = `start-preset-${preset.id}`;
+      this.addCommand({
+        id,
+        name: `Start Zap session: ${preset.name}`,
+        callback: () => {
+          this.startSession(preset);
+        },
+      });
+      this.presetCommandIds.push(id);
+    }
+  }
+
+  openExportModal(format: ExportFormat) {
+    new ExportModal(
+      this.app,
+      { format, path: this.settings.exportPath, from: "", to: "" },
+      (options) => this.exportSessions(options)
+    ).open();
+  }
+
+  openImportModal() {
+    new ImportFileModal(this.app, (file) => this.importSessions(file)).open();
+  }
+
+  private async exportSessions(options: ExportOptions) {
+    const sessions = filterSessions(this.sessions, {
+      ...DEFAULT_HISTORY_FILTER,
+      from: options.from,
+      to: options.to,
+    });
+    if (sessions.length === 0) {
+      new Notice("No sessions to export in that date range");
+      return;
+    }
+    const path = normalizePath(`${options.path}.${options.format}`);
+    const content =
+      options.format === "csv"
+        ? sessionsToCsv(sessions)
+        : sessionsToJson(sessions);
+    try {
+      await this.writeVaultFile(path, content);
+      new Notice(
+        `Exported ${sessions.length} session${
+          sessions.length === 1 ? "" : "s"
+        } to ${path}`
+      );
+    } catch (error) {
+      new Notice(`Unable to export to ${path}`);
+    }
+  }
+
+  private async importSessions(file: TFile) {
+    let incoming: SessionRecord[];
+    try {
+      const text = await this.app.vault.read(file);
+      const format = file.extension === "json" ? "json" : "csv";
+      incoming = parseSessions(text, format, this.getDefaultSessionConfig());
+    } catch (error) {
+      new Notice(`Unable to import ${file.path}: ${error.message}`);
+      return;
+    }
+    const { sessions, added, skipped } = mergeSessions(this.sessions, incoming);
+    await this.setSessions(sessions);
+    new Notice(
+      `Imported ${added} session${added === 1 ? "" : "s"}${
+        skipped > 0 ? `, skipped ${skipped} already recorded` : ""
+      }`
+    );
+  }
+
+  /**
+   * Create or overwrite a file in the vault, creating its folder if needed.
+   */
+  private async writeVaultFile(path: string, content: string) {
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return;
+    }
+    await this.ensureFolder(path);
+    await this.app.vault.create(path, content);
+  }
+
+  /**
+   * Create a new note, adding a number to its name if the path is taken.
+   */
+  private async createNote(path: string, content: string): Promise<TFile> {
+    const available = this.getAvailablePath(path);
+    await this.ensureFolder(available);
+    return this.app.vault.create(available, content);
+  }
+
+  // The note path, or the first free "name 2.md", "name 3.md"...
+  private getAvailablePath(path: string): string {
+    const base = normalizePath(path).replace(/\.md$/, "");
+    let candidate = `${base}.md`;
+    for (let n = 2; this.app.vault.getAbstractFileByPath(candidate); n++) {
+      candidate = `${base} ${n}.md`;
+    }
+    return candidate;
+  }
+
+  private async ensureFolder(path: string) {
+    const folder = path.split("/").slice(0, -1).join("/");
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+  }
+
   async openStatsView() {
     const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS);
     if (existing.length) {
@@ -221,21 +560,48 @@ export default class DangerousWritingPlugin extends Plugin {
     document.head.appendChild(this.styleEl);
   }
 
-  private recordSession(
-    wordsWritten: number,
-    durationSeconds: number,
-    completed: boolean
-  ) {
+  private recordSession(result: SessionResult): SessionRecord {
     const record: SessionRecord = {
       timestamp: Date.now(),
-      durationSeconds,
-      wordsWritten,
-      completed,
+      durationSeconds: result.durationSeconds,
+      completed: result.completed,
+      wordsAtStart: result.wordsAtStart,
+      wordsAtEnd: result.wordsAtEnd,
+      netWords: result.netWords,
+      wordsDeleted: result.wordsDeleted,
+      charactersTyped: result.charactersTyped,
+      charactersPasted: result.charactersPasted,
+      wordsPasted: result.wordsPasted,
+      filePath: result.filePaths[0],
+      otherFiles:
+        result.filePaths.length > 1 ? result.filePaths.slice(1) : undefined,
+      strikes: result.strikes,
+      prompt: this.engine?.config.prompt ?? undefined,
+      config: this.engine?.config,
+      endReason: result.endReason,
     };
+    this.addSessionRecord(record);
+    return record;
+  }
+
+  private addSessionRecord(record: SessionRecord) {
     this.sessions.push(record);
     this.saveSettings();
+    this.refreshStatsViews();
+  }
+
+  /**
+   * Replace the recorded sessions, e.g. after deleting or annotating one in
+   * the history table.
+   */
+  async setSessions(sessions: SessionRecord[]) {
+    this.sessions = sessions;
+    await this.saveSettings();
+    this.refreshStatsViews();
+    this.updateStatusBar();
+  }
 
-    // Update stats view if open
+  private refreshStatsViews() {
     const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS);
     for (const leaf of leaves) {
       if (leaf.view instanceof StatsView) {
@@ -257,8 +623,45 @@ export default class DangerousWritingPlugin extends Plugin {
     return notice;
   }
 
-  private startSession() {
-    if (this.sessionActive) {
+  /**
+   * Session configuration built from the global settings, used as the
+   * starting point in the config modal.
+   */
+  private getDefaultSessionConfig(): SessionConfig {
+    return {
+      goalMode: this.settings.defaultWordCountGoal > 0 ? "words" : "time",
+      durationMinutes: this.settings.sessionDurationMinutes,
+      wordCountGoal:
+        this.settings.defaultWordCountGoal > 0
+          ? this.settings.defaultWordCountGoal
+          : null,
+      penaltyType: this.settings.penaltyType,
+      escalationLadder: [...this.settings.escalationLadder],
+      softPenaltyReleaseWords: this.settings.softPenaltyReleaseWords,
+      lockCooldownSeconds: this.settings.lockCooldownSeconds,
+      scope: {
+        ...this.settings.sessionScope,
+        files: [...this.settings.sessionScope.files],
+      },
+      focusPolicies: { ...this.settings.focusPolicies },
+      pauseTokens: this.settings.pauseTokens,
+      pasteCountsTowardGoal: this.settings.pasteCountsTowardGoal,
+      pasteResetsTimer: this.settings.pasteResetsTimer,
+      activityPolicy: this.settings.activityPolicy,
+      revisionBudgetSeconds: this.settings.revisionBudgetSeconds,
+      idleTimeoutSeconds: this.settings.idleTimeoutSeconds,
+      warningThresholdSeconds: Math.min(
+        this.settings.warningThresholdSeconds,
+        this.settings.idleTimeoutSeconds
+      ),
+      practiceMode: this.settings.practiceMode,
+      presetName: null,
+      prompt: null,
+    };
+  }
+
+  private startSession(preset?: SessionPreset, prompt?: string) {
+    if (this.engine) {
       new Notice("Session already active!");
       return;
     }
@@ -275,319 +678,636 @@ export default class DangerousWritingPlugin extends Plugin {
       return;
     }
 
-    // Check if file has content
+    // Check if file has content. A prompt note only holds its prompt.
     const editor = view.editor;
     const currentContent = editor.getValue();
-    const hasExistingContent = currentContent.trim().length > 0;
+    const hasExistingContent = !prompt && currentContent.trim().length > 0;
+    const defaults = {
+      ...this.getDefaultSessionConfig(),
+      prompt: prompt ?? null,
+    };
+
+    // Presets start immediately, without the configuration modal
+    if (preset) {
+      this.beginSession(
+        file,
+        editor,
+        sessionConfigFromPreset(preset, defaults)
+      );
+      return;
+    }
 
     // Open configuration modal (warning will be shown inside modal if needed)
     new SessionConfigModal(
       this.app,
-      this.settings.sessionDurationMinutes,
-      this.settings.defaultWordCountGoal,
+      defaults,
       hasExistingContent,
-      this.settings.practiceMode,
-      this.settings.penaltyType,
+      this.settings.presets,
       (config: SessionConfig) => {
         this.beginSession(file, editor, config);
-      }
+      },
+      () => this.cleanupScratchNote()
     ).open();
   }
 
-  private beginSession(file: TFile, editor: Editor, config: SessionConfig) {
-    this.sessionActive = true;
-    this.activeFile = file;
-    this.initialContent = editor.getValue();
-    this.lastContentLength = this.initialContent.length;
-    this.initialWordCount = this.countWords(this.initialContent);
-    this.sessionStartTime = Date.now();
-
-    if (config.wordCountGoal !== null) {
-      this.wordCountGoal = config.wordCountGoal;
-      this.sessionDurationMs = 0; // No time limit, only word count
-    } else {
-      this.wordCountGoal = null;
-      this.sessionDurationMs = (config.durationMinutes || 5) * 60 * 1000;
+  /**
+   * Create a note for a random prompt, open it, and start a session in it.
+   */
+  private async startPromptSession() {
+    if (this.engine) {
+      new Notice("Session already active!");
+      return;
     }
 
-    // Start session timer/checker
-    const intervalId = window.setInterval(() => {
-      if (this.wordCountGoal !== null) {
-        // Check word count goal
-        const currentWords = this.countWords(editor.getValue());
-        if (currentWords - this.initialWordCount >= this.wordCountGoal) {
-          this.completeSession();
-        } else {
-          this.updateStatusBar();
-        }
-      } else {
-        // Check duration
-        const elapsed = Date.now() - this.sessionStartTime;
-        if (elapsed >= this.sessionDurationMs) {
-          this.completeSession();
-        } else {
-          this.updateStatusBar();
-        }
-      }
-    }, 1000);
-    this.sessionInterval = intervalId;
-    this.registerInterval(intervalId);
-
-    // Start idle watchdog
-    this.resetIdleWatchdog();
-
-    // Update status bar
-    this.updateStatusBar();
-
-    // Create warning overlay
-    this.createWarningOverlay();
-
-    if (this.wordCountGoal !== null) {
+    const prompts = [
+      ...(this.settings.useBuiltInPrompts ? BUILT_IN_PROMPTS : []),
+      ...(await loadUserPrompts(this.app, this.settings.promptSource)),
+    ];
+    const prompt = pickPrompt(prompts);
+    if (!prompt) {
       new Notice(
-        `Zap session started! Goal: ${this.wordCountGoal} words. Keep typing!`
+        "No prompts to choose from. Add your own prompts or turn on the built-in ones in settings."
       );
-    } else {
-      const minutes = Math.floor(this.sessionDurationMs / 60000);
-      new Notice(`Zap session started! ${minutes} minutes. Keep typing!`);
+      return;
     }
-  }
 
-  private resetIdleWatchdog() {
-    // Clear existing timeout
-    if (this.idleWatchdogTimeout !== null) {
-      window.clearTimeout(this.idleWatchdogTimeout);
-      this.idleWatchdogTimeout = null;
+    let file: TFile;
+    const content = formatPrompt(prompt, this.settings.promptStyle);
+    try {
+      file = await this.createNote(
+        renderNotePath(this.settings.promptNoteTemplate, prompt),
+        content
+      );
+    } catch (error) {
+      new Notice("Unable to create a note for the prompt");
+      return;
     }
 
-    this.lastActivityTime = Date.now();
+    this.scratchNote = { path: file.path, content };
+    await this.openNoteForWriting(file);
+    this.startSession(undefined, prompt);
+  }
 
-    // Clear warning overlay
-    if (this.warningOverlay) {
-      this.warningOverlay.className = "dangerous-writing-warning-overlay";
-      this.warningOverlay.style.backgroundColor = "";
+  /**
+   * Create a note from the "New Notes" settings, open it, and start a
+   * session in it.
+   */
+  private async startScratchSession() {
+    if (this.engine) {
+      new Notice("Session already active!");
+      return;
     }
 
-    // Set new timeout
-    this.idleWatchdogTimeout = window.setTimeout(() => {
-      this.triggerPenalty();
-    }, this.settings.idleTimeoutSeconds * 1000);
+    let file: TFile;
+    let content: string;
+    try {
+      const note = await buildScratchNote(this.app, {
+        folder: this.settings.scratchFolder,
+        namePattern: this.settings.scratchNamePattern,
+        template: this.settings.scratchTemplate,
+        frontmatter: this.settings.scratchFrontmatter,
+      });
+      content = note.content;
+      file = await this.createNote(note.path, content);
+    } catch (error) {
+      new Notice("Unable to create a new note for the session");
+      return;
+    }
 
-    // Start warning interval
-    this.startWarningInterval();
+    this.scratchNote = { path: file.path, content };
+    await this.openNoteForWriting(file);
+    this.startSession();
   }
 
-  private startWarningInterval() {
-    // Check every 50ms for smooth progression
-    const checkInterval = 50;
-    const warningThresholdMs = this.settings.warningThresholdSeconds * 1000;
-    const idleTimeoutMs = this.settings.idleTimeoutSeconds * 1000;
-    const color = this.settings.warningColor;
-    const r = parseInt(color.slice(1, 3), 16);
-    const g = parseInt(color.slice(3, 5), 16);
-    const b = parseInt(color.slice(5, 7), 16);
+  // Open a note in a new tab with the cursor at the end, ready for a session
+  private async openNoteForWriting(file: TFile) {
+    const leaf = this.app.workspace.getLeaf("tab");
+    await leaf.openFile(file, { active: true });
+    if (leaf.view instanceof MarkdownView) {
+      const editor = leaf.view.editor;
+      editor.focus();
+      editor.setCursor(editor.offsetToPos(editor.getValue().length));
+    }
+  }
 
-    const warningCheck = window.setInterval(() => {
-      if (!this.sessionActive) {
-        window.clearInterval(warningCheck);
+  /**
+   * Remove the note Zap created for the session that just ended, if nothing
+   * beyond its initial content was kept.
+   */
+  private async cleanupScratchNote() {
+    const scratch = this.scratchNote;
+    this.scratchNote = null;
+    if (!scratch || this.settings.scratchCleanup === "keep") {
+      return;
+    }
+    const file = this.app.vault.getAbstractFileByPath(scratch.path);
+    if (!(file instanceof TFile)) {
+      return;
+    }
+    try {
+      const content =
+        this.getEditor(file.path)?.getValue() ??
+        (await this.app.vault.read(file));
+      if (content.trim() !== scratch.content.trim()) {
         return;
       }
+      if (this.settings.scratchCleanup === "archive") {
+        const path = this.getAvailablePath(
+          `${this.settings.scratchArchiveFolder}/${file.name}`
+        );
+        await this.ensureFolder(path);
+        await this.app.fileManager.renameFile(file, path);
+        new Notice(`Moved the empty note to ${path}`);
+      } else {
+        await this.app.fileManager.trashFile(file);
+        new Notice(`Moved the empty note ${file.basename} to the trash`);
+      }
+    } catch (error) {
+      new Notice(`Unable to clean up ${scratch.path}`);
+    }
+  }
 
-      const idleTime = Date.now() - this.lastActivityTime;
-      const remaining = idleTimeoutMs - idleTime;
-
-      if (remaining <= 0) {
-        window.clearInterval(warningCheck);
-        if (this.warningOverlay) {
-          this.warningOverlay.style.backgroundColor = "";
-        }
-        return;
+  private beginSession(
+    file: TFile,
+    editor: Editor,
+    config: SessionConfig,
+    resume?: SessionJournal
+  ) {
+    // Count with the current rules for the whole session
+    this.applyWordCountOptions();
+    const options = this.wordCountOptions;
+
+    const engine = new SessionEngine(
+      file.path,
+      config,
+      {
+        getText: (path) => this.getEditor(path)?.getValue() ?? null,
+        isOpen: (path) => this.getEditor(path) !== null,
+        countWords: (text) => countWords(text, options),
+        replaceRange: (path, text, from, to) => {
+          const sessionEditor = this.getEditor(path);
+          sessionEditor?.replaceRange(
+            text,
+            sessionEditor.offsetToPos(from),
+            sessionEditor.offsetToPos(to)
+          );
+        },
+      },
+      windowClock,
+      {
+        onUpdate: () => this.handleSessionUpdate(),
+        onWarning: (progress) => this.updateWarningOverlay(progress),
+        onStrike: (penalty) => this.handleStrike(penalty),
+        onEffect: (effect) => this.showPenaltyEffect(effect),
+        onEnd: (result) => this.handleSessionEnd(result),
       }
+    );
+    this.engine = engine;
 
-      // Start warning when user has been idle for warningThreshold seconds
-      // (i.e., when remaining <= idleTimeout - warningThreshold)
-      if (idleTime >= warningThresholdMs && this.warningOverlay) {
-        // Progress from 0 (when idle for warningThreshold) to 1 (when idle for idleTimeout)
-        const warningDuration = idleTimeoutMs - warningThresholdMs;
-        const progress = (idleTime - warningThresholdMs) / warningDuration;
-        // Use sine easing for very smooth, gradual transition
-        const easedProgress = Math.sin((progress * Math.PI) / 2);
-        // Opacity ranges from 0 to 0.45 - starts invisible, ramps up smoothly
-        const opacity = easedProgress * 0.45;
-        this.warningOverlay.style.backgroundColor = `rgba(${r}, ${g}, ${b}, ${opacity})`;
-      } else if (idleTime < warningThresholdMs && this.warningOverlay) {
-        this.warningOverlay.style.backgroundColor = "";
+    // Create warning overlay
+    this.createWarningOverlay();
+
+    engine.start(
+      resume && {
+        initialContent: resume.initialContent,
+        elapsedMs: journalElapsedMs(resume),
+        wordsDeleted: resume.wordsDeleted,
+        charactersTyped: resume.charactersTyped,
+        charactersPasted: resume.charactersPasted,
+        wordsPasted: resume.wordsPasted,
+        revisionMsUsed: resume.revisionMsUsed,
+        strikes: resume.strikes,
+        pauseTokensUsed: resume.pauseTokensUsed,
       }
-    }, checkInterval);
-  }
+    );
+
+    this.journal = {
+      filePath: file.path,
+      config,
+      startTime: engine.getStartTime(),
+      initialContent: engine.getInitialContent(),
+      checkpointTime: Date.now(),
+      wordsDeleted: engine.getWordsDeleted(),
+      charactersTyped: engine.getCharactersTyped(),
+      charactersPasted: engine.getCharactersPasted(),
+      wordsPasted: engine.getWordsPasted(),
+      revisionMsUsed: engine.getRevisionMsUsed(),
+      strikes: engine.getStrikes(),
+      pausedMs: engine.getPausedMs(),
+      pauseTokensUsed: engine.getPauseTokensUsed(),
+    };
+    this.saveJournal(true);
 
-  private applyPenalty(editor: Editor, content: string): string {
-    const penaltyType = this.settings.penaltyType;
+    // Update status bar
+    this.updateStatusBar();
 
-    if (penaltyType === "all") {
-      return "";
+    if (resume) {
+      new Notice("Zap session resumed! Keep typing!");
+    } else {
+      const scope =
+        config.scope?.type && config.scope.type !== "file"
+          ? ` across ${describeScope(config.scope)}`
+          : "";
+      new Notice(
+        `Zap session started${scope}! Goal: ${describeGoal(
+          config
+        )}. Keep typing!`
+      );
     }
+  }
 
-    if (penaltyType === "sentence") {
-      // Remove last sentence (ends with . ! ? or newline followed by content)
-      const sentenceEndings = /[.!?]\s*$/;
-      let result = content.trimEnd();
+  private handleSessionUpdate() {
+    if (
+      this.journal &&
+      Date.now() - this.journal.checkpointTime >= JOURNAL_CHECKPOINT_INTERVAL_MS
+    ) {
+      this.checkpointJournal();
+    }
+    this.updateStatusBar();
+  }
 
-      // Find the last sentence ending
-      const lastSentenceMatch = result.match(/[.!?][^.!?]*$/);
-      if (lastSentenceMatch) {
-        result = result.slice(0, result.length - lastSentenceMatch[0].length);
-      } else {
-        // No sentence ending found, remove last line
-        const lines = result.split("\n");
-        if (lines.length > 1) {
-          lines.pop();
-          result = lines.join("\n");
-        } else {
-          result = "";
-        }
-      }
-      return result;
+  private checkpointJournal() {
+    if (!this.journal || !this.engine) {
+      return;
     }
+    this.journal.checkpointTime = Date.now();
+    this.journal.wordsDeleted = this.engine.getWordsDeleted();
+    this.journal.charactersTyped = this.engine.getCharactersTyped();
+    this.journal.charactersPasted = this.engine.getCharactersPasted();
+    this.journal.wordsPasted = this.engine.getWordsPasted();
+    this.journal.revisionMsUsed = this.engine.getRevisionMsUsed();
+    this.journal.strikes = this.engine.getStrikes();
+    this.journal.pausedMs = this.engine.getPausedMs();
+    this.journal.pauseTokensUsed = this.engine.getPauseTokensUsed();
+    this.saveJournal();
+  }
 
-    if (penaltyType === "paragraph") {
-      // Remove last paragraph (separated by double newline)
-      const paragraphs = content.split(/\n\n+/);
-      if (paragraphs.length > 1) {
-        paragraphs.pop();
-        return paragraphs.join("\n\n");
+  /**
+   * Draw a non-destructive penalty in the note it applies to, or clear it
+   * from every open note.
+   */
+  private showPenaltyEffect(effect: PenaltyEffect | null) {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      if (
+        leaf.view instanceof MarkdownView &&
+        (effect === null || leaf.view.file?.path === effect.filePath)
+      ) {
+        // Obsidian's editor wraps a CodeMirror view it doesn't expose in its
+        // types
+        const view = (leaf.view.editor as { cm?: EditorView }).cm;
+        view?.dispatch({ effects: setPenaltyEffect.of(effect) });
       }
-      // Only one paragraph, remove it all
-      return "";
     }
+    this.updateStatusBar();
+  }
 
-    return "";
+  private getWordCountOptions(): WordCountOptions {
+    return {
+      method: this.settings.wordCountMethod,
+      excludeMarkdown: this.settings.excludeMarkdown,
+      hyphenatedAsOne: this.settings.hyphenatedWordsAsOne,
+    };
   }
 
-  private triggerPenalty() {
-    if (!this.sessionActive) {
+  /**
+   * Recount open notes if the word counting settings changed since the
+   * last session.
+   */
+  private applyWordCountOptions() {
+    const options = this.getWordCountOptions();
+    const current = this.wordCountOptions;
+    if (
+      current &&
+      current.method === options.method &&
+      current.excludeMarkdown === options.excludeMarkdown &&
+      current.hyphenatedAsOne === options.hyphenatedAsOne
+    ) {
       return;
     }
+    this.wordCountOptions = options;
+    const extension = wordCountExtension(options, (update, length, words) => {
+      const file = update.state.field(editorInfoField, false)?.file;
+      if (this.engine && file && this.isInScope(file)) {
+        this.engine.handleChange(file.path, {
+          length,
+          wordCount: words,
+          input: classifyInput(update),
+        });
+      }
+    });
+    this.wordCountExtension.splice(
+      0,
+      this.wordCountExtension.length,
+      ...extension
+    );
+    // Rebuild the counts in open editors
+    this.app.workspace.updateOptions();
+  }
 
-    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-    if (!view || view.file !== this.activeFile) {
+  private getEditor(path: string): Editor | null {
+    for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+      if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+        return leaf.view.editor;
+      }
+    }
+    return null;
+  }
+
+  private handleFocusChange(reason: AwayReason, away: boolean) {
+    const engine = this.engine;
+    if (!engine) {
       return;
     }
+    const policy = engine.handleFocusChange(reason, away);
+    if (
+      policy === "count" &&
+      engine.config.focusPolicies?.[reason] === "pause"
+    ) {
+      new Notice("No pause tokens left - the idle timer keeps running!");
+    }
+    this.updateStatusBar();
+  }
 
-    const editor = view.editor;
-    const currentContent = editor.getValue();
-    const wordsWritten = this.countWords(currentContent);
-    const durationSeconds = Math.floor(
-      (Date.now() - this.sessionStartTime) / 1000
+  /**
+   * Whether a note belongs to the running session.
+   */
+  private isInScope(file: TFile): boolean {
+    return (
+      this.engine !== null &&
+      isInScope(this.app, this.engine.config.scope, this.engine.filePath, file)
     );
+  }
 
-    // Save initial content before stopping session (which clears it)
-    const savedInitialContent = this.initialContent;
-    const practiceMode = this.settings.practiceMode;
-
-    // Apply the penalty based on settings
-    const newContent = this.applyPenalty(editor, currentContent);
-    editor.setValue(newContent);
-
-    // Show penalty notice with details
-    const penaltyTypeText =
-      this.settings.penaltyType === "all"
-        ? "All content"
-        : this.settings.penaltyType === "paragraph"
-        ? "Last paragraph"
-        : "Last sentence";
-    this.showClickableNotice(
-      `⛔ You stopped writing! ${penaltyTypeText} deleted!`,
-      5000
-    );
+  private offerSessionRecovery() {
+    const journal = this.journal;
+    if (!journal) {
+      return;
+    }
 
-    // Record session
-    this.recordSession(wordsWritten, durationSeconds, false);
+    const found = this.app.vault.getAbstractFileByPath(journal.filePath);
+    const file = found instanceof TFile ? found : null;
 
-    // Stop session
-    this.stopSession(false);
+    new SessionRecoveryModal(
+      this.app,
+      journal,
+      file !== null,
+      (action: RecoveryAction) => {
+        this.recoverSession(journal, file, action);
+      }
+    ).open();
+  }
 
-    // Show recovery option if in practice mode
-    if (practiceMode) {
-      const recover = confirm(
-        "Practice mode: Would you like to restore the original content?"
-      );
-      if (recover) {
-        editor.setValue(savedInitialContent);
-        new Notice("Content restored");
+  private async recoverSession(
+    journal: SessionJournal,
+    file: TFile | null,
+    action: RecoveryAction
+  ) {
+    this.journal = null;
+    this.saveJournal();
+
+    if (action === "resume" && file) {
+      const leaf = this.app.workspace.getLeaf(false);
+      await leaf.openFile(file);
+      const view = leaf.view;
+      if (view instanceof MarkdownView) {
+        this.beginSession(file, view.editor, journal.config, journal);
+        return;
+      }
+      new Notice("Unable to reopen the session note");
+    }
+
+    // The note keeps whatever was written before the interruption
+    let finalContent = file
+      ? await this.app.vault.read(file)
+      : journal.initialContent;
+    if (action === "restore") {
+      try {
+        if (file) {
+          await this.app.vault.modify(file, journal.initialContent);
+        } else {
+          await this.app.vault.create(journal.filePath, journal.initialContent);
+        }
+        finalContent = journal.initialContent;
+        new Notice("Note restored to its pre-session snapshot");
+      } catch (error) {
+        new Notice(`Unable to restore ${journal.filePath}`);
       }
     }
+
+    // Interrupted sessions are kept in the history as failed attempts
+    const options = this.getWordCountOptions();
+    const wordsAtStart = countWords(journal.initialContent, options);
+    const wordsAtEnd = countWords(finalContent, options);
+    this.addSessionRecord({
+      timestamp: journal.checkpointTime,
+      durationSeconds: Math.floor(journalElapsedMs(journal) / 1000),
+      completed: false,
+      wordsAtStart,
+      wordsAtEnd,
+      netWords: Math.max(0, wordsAtEnd - wordsAtStart),
+      wordsDeleted: journal.wordsDeleted,
+      charactersTyped: journal.charactersTyped,
+      charactersPasted: journal.charactersPasted,
+      wordsPasted: journal.wordsPasted,
+      filePath: journal.filePath,
+      prompt: journal.config.prompt ?? undefined,
+      config: journal.config,
+      endReason: "abandoned",
+      abandoned: true,
+    });
   }
 
-  private completeSession() {
-    if (!this.sessionActive) {
+  /**
+   * Keep zapped text in the graveyard so it can be recovered. Returns the
+   * last chunk stored, if any.
+   */
+  private buryZappedText(penalty: PenaltyResult): ZappedChunk | null {
+    const penaltyType = penalty.penaltyType;
+    if (isSoftPenalty(penaltyType)) {
+      return null;
+    }
+    const chunks = penalty.zapped.map((zapped) =>
+      createZappedChunk(
+        penalty.filePath,
+        penaltyType,
+        zapped.text,
+        zapped.offset
+      )
+    );
+    this.graveyard = pruneGraveyard(
+      [...this.graveyard, ...chunks],
+      this.settings.graveyardRetentionDays
+    );
+    return chunks[chunks.length - 1] ?? null;
+  }
+
+  /**
+   * A penalty struck but the session continues: an escalating penalty short
+   * of its last strike, or a non-destructive penalty.
+   */
+  private handleStrike(penalty: PenaltyResult) {
+    const engine = this.engine;
+    if (!engine) {
       return;
     }
 
-    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-    if (!view || view.file !== this.activeFile) {
-      this.stopSession(false);
+    const penaltyType = penalty.penaltyType;
+    if (isSoftPenalty(penaltyType)) {
+      const description = describeSoftPenalty(penaltyType, engine.config);
+      this.showClickableNotice(
+        `⚡ You stopped writing! Now ${description}.`,
+        5000
+      );
+      this.updateStatusBar();
       return;
     }
+    // No recovery prompt here: a modal would steal focus mid-session
+    // Save the graveyard now so the zapped text survives a crash mid-session
+    this.buryZappedText(penalty);
+    this.saveSettings();
+    this.checkpointJournal();
 
-    const editor = view.editor;
-    const wordsWritten = this.countWords(editor.getValue());
-    const durationSeconds = Math.floor(
-      (Date.now() - this.sessionStartTime) / 1000
+    const strikesLeft = (engine.getStrikeLimit() ?? 0) - engine.getStrikes();
+    this.showClickableNotice(
+      `⚡ Strike ${engine.getStrikes()}! ${
+        PENALTY_STEP_NOTICES[penaltyType]
+      } deleted. ${strikesLeft} ${
+        strikesLeft === 1 ? "strike" : "strikes"
+      } left — keep typing!`,
+      5000
     );
+    this.updateStatusBar();
+  }
+
+  private handleSessionEnd(result: SessionResult) {
+    const engine = this.engine;
+    if (!engine) {
+      return;
+    }
 
-    // Record session
-    this.recordSession(wordsWritten, durationSeconds, true);
+    const chunk = result.penalty ? this.buryZappedText(result.penalty) : null;
 
-    this.stopSession(true);
+    const record = this.recordSession(result);
+    if (result.completed || (engine.config.practiceMode && chunk)) {
+      // Keep the note: it holds the finished sprint, or zapped text may be
+      // re-inserted into it from the graveyard
+      this.scratchNote = null;
+    }
+    this.stopSession();
 
-    // Show clickable notice with stats
-    const minutes = Math.floor(durationSeconds / 60);
-    const seconds = durationSeconds % 60;
+    const minutes = Math.floor(result.durationSeconds / 60);
+    const seconds = result.durationSeconds % 60;
     const durationStr = minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
-    this.showClickableNotice(
-      `🎉 Session completed! ${wordsWritten} words in ${durationStr}. (click to close)`,
-      0
-    );
-  }
 
-  private stopSession(completed: boolean) {
-    if (!this.sessionActive) {
-      return;
+    if (result.endReason === "idle") {
+      // Show penalty notice with details
+      const penaltyType = result.penalty?.penaltyType;
+      const penaltyTypeText =
+        penaltyType && !isSoftPenalty(penaltyType)
+          ? PENALTY_STEP_NOTICES[penaltyType]
+          : "Nothing";
+      this.showClickableNotice(
+        `⛔ You stopped writing! ${penaltyTypeText} deleted!`,
+        5000
+      );
+
+      // Show recovery option if in practice mode
+      if (engine.config.practiceMode && chunk) {
+        new GraveyardModal(this.app, this, chunk.id).open();
+      }
+    } else if (result.completed) {
+      this.showClickableNotice(
+        `🎉 Session completed! ${record.netWords} words in ${durationStr}. (click to close)`,
+        0
+      );
+      this.writeSessionSummary(record);
+    } else {
+      this.showClickableNotice(
+        `⌛ Time's up! ${record.netWords}/${engine.config.wordCountGoal} words — session failed. (click to close)`,
+        0
+      );
     }
+  }
 
-    this.sessionActive = false;
+  /**
+   * Log a completed session to the daily note and the note's frontmatter,
+   * as enabled in settings.
+   */
+  private async writeSessionSummary(record: SessionRecord) {
+    const file = record.filePath
+      ? this.app.vault.getAbstractFileByPath(record.filePath)
+      : null;
+    const note = file instanceof TFile ? file : null;
+
+    if (this.settings.dailyNoteSummary) {
+      try {
+        const added = await appendToDailyNote(this.app, (dailyNotePath) =>
+          renderSummary(
+            this.app,
+            this.settings.dailyNoteTemplate,
+            record,
+            note,
+            dailyNotePath
+          )
+        );
+        if (!added) {
+          new Notice("Enable the Daily notes core plugin to log Zap sessions");
+        }
+      } catch (error) {
+        new Notice("Unable to add the session to your daily note");
+      }
+    }
 
-    // Clear intervals and timeouts
-    if (this.sessionInterval !== null) {
-      window.clearInterval(this.sessionInterval);
-      this.sessionInterval = null;
+    if (this.settings.updateFrontmatter && note) {
+      try {
+        await updateSessionFrontmatter(this.app, note, record);
+      } catch (error) {
+        new Notice(`Unable to update the frontmatter of ${note.path}`);
+      }
     }
+  }
 
-    if (this.idleWatchdogTimeout !== null) {
-      window.clearTimeout(this.idleWatchdogTimeout);
-      this.idleWatchdogTimeout = null;
+  private stopSession(keepJournal: boolean = false) {
+    if (!this.engine) {
+      return;
     }
 
-    if (this.statusBarInterval !== null) {
-      window.clearInterval(this.statusBarInterval);
-      this.statusBarInterval = null;
+    this.engine.stop();
+    this.engine = null;
+
+    if (!keepJournal) {
+      this.journal = null;
+      this.saveJournal();
+      this.cleanupScratchNote();
     }
 
     // Remove warning overlay
     this.removeWarningOverlay();
 
-    // Reset state
-    this.activeFile = null;
-    this.initialContent = "";
-    this.lastContentLength = 0;
-    this.initialWordCount = 0;
-    this.wordCountGoal = null;
-    this.lastActivityTime = 0;
-
     // Update status bar
     this.updateStatusBar();
   }
 
+  private updateWarningOverlay(progress: number | null) {
+    if (!this.warningOverlay) {
+      return;
+    }
+    if (progress === null) {
+      this.warningOverlay.style.backgroundColor = "";
+      return;
+    }
+
+    const color = this.settings.warningColor;
+    const r = parseInt(color.slice(1, 3), 16);
+    const g = parseInt(color.slice(3, 5), 16);
+    const b = parseInt(color.slice(5, 7), 16);
+    // Use sine easing for very smooth, gradual transition
+    const easedProgress = Math.sin((progress * Math.PI) / 2);
+    // Opacity ranges from 0 to 0.45 - starts invisible, ramps up smoothly
+    const opacity = easedProgress * 0.45;
+    this.warningOverlay.style.backgroundColor = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+  }
+
   private createWarningOverlay() {
     if (this.warningOverlay) {
       return;
@@ -605,53 +1325,80 @@ export default class DangerousWritingPlugin extends Plugin {
     }
   }
 
-  private updateStatusBar() {
+  updateStatusBar() {
     if (!this.statusBarEl) {
       return;
     }
 
-    if (!this.sessionActive) {
-      this.statusBarEl.setText("");
+    const engine = this.engine;
+    if (!engine) {
+      this.statusBarEl.setText(this.getStreakStatus());
       this.statusBarEl.className = "";
       return;
     }
 
     // Calculate idle time
-    const idleTime = Date.now() - this.lastActivityTime;
-    const idleSeconds = Math.floor(idleTime / 1000);
-    const idleRemaining = Math.max(
-      0,
-      this.settings.idleTimeoutSeconds - idleSeconds
-    );
+    const config = engine.config;
+    const idleRemaining = Math.ceil(engine.getIdleRemainingMs() / 1000);
 
-    let statusText = "";
+    // Combined goals show both progress values
+    const parts: string[] = [];
 
-    if (this.wordCountGoal !== null) {
-      // Word count mode
-      const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-      if (view && view.file === this.activeFile) {
-        const currentWords = this.countWords(view.editor.getValue());
-        const wordsWritten = currentWords - this.initialWordCount;
-        const remaining = Math.max(0, this.wordCountGoal - wordsWritten);
-        statusText = `📝 ${wordsWritten}/${this.wordCountGoal} words`;
+    if (goalUsesWords(config.goalMode)) {
+      const wordsWritten = engine.getWordsWritten();
+      if (wordsWritten !== null) {
+        parts.push(`📝 ${wordsWritten}/${config.wordCountGoal} words`);
       } else {
-        statusText = `📝 Goal: ${this.wordCountGoal} words`;
+        parts.push(`📝 Goal: ${config.wordCountGoal} words`);
       }
-    } else {
-      // Duration mode
-      const elapsed = Date.now() - this.sessionStartTime;
-      const remaining = Math.max(0, this.sessionDurationMs - elapsed);
+    }
+
+    const remaining = engine.getRemainingMs();
+    if (remaining !== null) {
       const remainingMinutes = Math.floor(remaining / 60000);
       const remainingSeconds = Math.floor((remaining % 60000) / 1000);
-      statusText = `⏱️ ${remainingMinutes}:${String(remainingSeconds).padStart(
-        2,
-        "0"
-      )}`;
+      parts.push(
+        remaining === 0 && config.goalMode === "time-and-words"
+          ? "⏱️ done"
+          : `⏱️ ${remainingMinutes}:${String(remainingSeconds).padStart(
+              2,
+              "0"
+            )}`
+      );
     }
 
-    // Show warning when user has been idle for warningThresholdSeconds
-    // (i.e., when idleSeconds >= warningThresholdSeconds)
-    if (idleSeconds >= this.settings.warningThresholdSeconds) {
+    if (config.penaltyType === "escalating") {
+      parts.push(`⚡ ${engine.getStrikes()}/${engine.getStrikeLimit()}`);
+    } else if (isSoftPenalty(config.penaltyType) && engine.getStrikes() > 0) {
+      parts.push(`⚡ ${engine.getStrikes()}`);
+    }
+
+    const effect = engine.getEffect();
+    if (effect?.penaltyType === "lock") {
+      parts.push("🔒 locked");
+    } else if (effect) {
+      parts.push(`🌫️ ${effect.penaltyType}`);
+    }
+
+    const revisionLeft = engine.getRevisionBudgetLeftMs();
+    if (revisionLeft !== null) {
+      parts.push(`✏️ ${Math.ceil(revisionLeft / 1000)}s to revise`);
+    }
+
+    let statusText = parts.join(" | ");
+
+    if (engine.isPaused()) {
+      const tokensLeft = engine.getPauseTokensLeft();
+      statusText += ` | ⏸️ paused${
+        tokensLeft !== null ? ` (${tokensLeft} left)` : ""
+      }`;
+      this.statusBarEl.className = "dangerous-writing-status-bar active paused";
+    } else if (engine.isPenaltyPending()) {
+      statusText += " | ⛔ penalty pending";
+      this.statusBarEl.className =
+        "dangerous-writing-status-bar active warning";
+    } else if (engine.isWarning()) {
+      // Show warning when user has been idle for warningThresholdSeconds
       statusText += ` | ⚠️ ${idleRemaining}s idle`;
       this.statusBarEl.className =
         "dangerous-writing-status-bar active warning";
@@ -663,11 +1410,23 @@ export default class DangerousWritingPlugin extends Plugin {
     this.statusBarEl.setText(statusText);
   }
 
-  private countWords(text: string): number {
-    return text
-      .trim()
-      .split(/\s+/)
-      .filter((word) => word.length > 0).length;
+  /**
+   * Streak and daily target progress, shown while no session is running.
+   */
+  private getStreakStatus(): string {
+    const streaks = computeStreaks(this.sessions, this.settings);
+    const parts: string[] = [];
+    if (streaks.current > 0) {
+      parts.push(`🔥 ${streaks.current}`);
+    }
+    if (this.settings.dailyWordTarget > 0) {
+      parts.push(
+        `📝 ${streaks.todayWords}/${this.settings.dailyWordTarget} today${
+          streaks.todayMet ? " ✅" : ""
+        }`
+      );
+    }
+    return parts.join(" | ");
   }
 
   private cleanup() {
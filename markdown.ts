@@ -0,0 +1,340 @@
+/**
+ * Line-based Markdown segmentation used by the penalties. It only needs to
+ * know where prose lives and which blocks must never be touched, so it is
+ * deliberately much simpler than a full Markdown parser.
+ */
+
+export type BlockType =
+  | "frontmatter"
+  | "code"
+  | "math"
+  | "embed"
+  | "heading"
+  | "list"
+  | "callout"
+  | "paragraph";
+
+export interface TextRange {
+  from: number;
+  to: number;
+}
+
+export interface Block extends TextRange {
+  type: BlockType;
+  // Start of the block's text, after any list marker, heading hashes or
+  // quote prefix on its first line
+  contentFrom: number;
+}
+
+// Blocks the penalties never remove or cut into
+const PROTECTED_BLOCKS: BlockType[] = ["frontmatter", "code", "math", "embed"];
+
+// Words that end with a period without ending the sentence
+const ABBREVIATIONS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "dr",
+  "prof",
+  "sr",
+  "jr",
+  "st",
+  "mt",
+  "vs",
+  "etc",
+  "e.g",
+  "i.e",
+  "cf",
+  "al",
+  "approx",
+  "no",
+  "vol",
+  "fig",
+  "inc",
+  "ltd",
+  "co",
+]);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const EMBED = /^\s*!\[\[[^\]]*\]\]\s*$|^\s*!\[[^\]]*\]\([^)]*\)\s*$/;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])(\s+\[.\])?\s+/;
+const QUOTE = /^\s*>\s?/;
+
+export function isProtected(block: Block): boolean {
+  return PROTECTED_BLOCKS.includes(block.type);
+}
+
+interface Line {
+  text: string;
+  from: number;
+  to: number;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let from = 0;
+  while (from <= text.length) {
+    const newline = text.indexOf("\n", from);
+    const to = newline === -1 ? text.length : newline;
+    lines.push({ text: text.slice(from, to), from, to });
+    if (newline === -1) {
+      break;
+    }
+    from = newline + 1;
+  }
+  return lines;
+}
+
+/**
+ * Split a note into blocks. Blank lines separate blocks and are not part of
+ * any block. Unterminated frontmatter, fences and math blocks run to the end
+ * of the note so they stay protected while they're being written.
+ */
+export function parseBlocks(text: string): Block[] {
+  const lines = splitLines(text);
+  const blocks: Block[] = [];
+  let i = 0;
+
+  const push = (type: BlockType, start: number, end: number, prefix = 0) => {
+    blocks.push({
+      type,
+      from: lines[start].from,
+      to: lines[end].to,
+      contentFrom: lines[start].from + prefix,
+    });
+  };
+
+  // YAML frontmatter must start on the first line
+  if (lines[0].text === "---") {
+    let end = 1;
+    while (end < lines.length && !/^(---|\.\.\.)$/.test(lines[end].text)) {
+      end++;
+    }
+    end = Math.min(end, lines.length - 1);
+    push("frontmatter", 0, end);
+    i = end + 1;
+  }
+
+  while (i < lines.length) {
+    const line = lines[i].text;
+
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      let end = i + 1;
+      while (end < lines.length) {
+        const closing = lines[end].text.match(FENCE);
+        if (
+          closing &&
+          closing[1][0] === marker[0] &&
+          closing[1].length >= marker.length &&
+          lines[end].text.trim() === closing[1]
+        ) {
+          break;
+        }
+        end++;
+      }
+      end = Math.min(end, lines.length - 1);
+      push("code", i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (line.trim() === "$$") {
+      let end = i + 1;
+      while (end < lines.length && lines[end].text.trim() !== "$$") {
+        end++;
+      }
+      end = Math.min(end, lines.length - 1);
+      push("math", i, end);
+      i = end + 1;
+      continue;
+    }
+
+    if (EMBED.test(line)) {
+      push("embed", i, i);
+      i++;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      push("heading", i, i, heading[0].length);
+      i++;
+      continue;
+    }
+
+    const quote = line.match(QUOTE);
+    if (quote) {
+      let end = i;
+      while (end + 1 < lines.length && QUOTE.test(lines[end + 1].text)) {
+        end++;
+      }
+      push("callout", i, end, quote[0].length);
+      i = end + 1;
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      // Indented lines that aren't new items continue this item
+      const indent = item[1].length;
+      let end = i;
+      while (end + 1 < lines.length) {
+        const next = lines[end + 1].text;
+        const nextIndent = next.length - next.trimStart().length;
+        if (
+          next.trim() === "" ||
+          LIST_ITEM.test(next) ||
+          nextIndent <= indent
+        ) {
+          break;
+        }
+        end++;
+      }
+      push("list", i, end, item[0].length);
+      i = end + 1;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    let end = i;
+    while (end + 1 < lines.length) {
+      const next = lines[end + 1].text;
+      if (
+        next.trim() === "" ||
+        FENCE.test(next) ||
+        next.trim() === "$$" ||
+        EMBED.test(next) ||
+        HEADING.test(next) ||
+        QUOTE.test(next) ||
+        LIST_ITEM.test(next)
+      ) {
+        break;
+      }
+      end++;
+    }
+    push("paragraph", i, end);
+    i = end + 1;
+  }
+
+  return blocks;
+}
+
+const TERMINATORS = ".!?…";
+const CLOSERS = "\"'”’)]*_";
+
+/**
+ * Return the sentences in `text` between `from` and `to`. Periods after
+ * abbreviations and initials, decimals, URLs, ellipses that run into a
+ * lowercase word, and anything inside inline code or links don't end a
+ * sentence.
+ */
+export function findSentences(
+  text: string,
+  from: number,
+  to: number
+): TextRange[] {
+  const sentences: TextRange[] = [];
+  let start = from;
+  let i = from;
+
+  const skipWhitespace = (pos: number) => {
+    while (pos < to && /\s/.test(text[pos])) {
+      pos++;
+    }
+    return pos;
+  };
+
+  start = skipWhitespace(start);
+  while (i < to) {
+    const ch = text[i];
+
+    // Jump over inline code, wikilinks and link targets
+    if (ch === "`") {
+      const close = text.indexOf("`", i + 1);
+      i = close === -1 || close >= to ? to : close + 1;
+      continue;
+    }
+    if (text.startsWith("[[", i)) {
+      const close = text.indexOf("]]", i + 2);
+      i = close === -1 || close >= to ? to : close + 2;
+      continue;
+    }
+    if (text.startsWith("](", i)) {
+      const close = text.indexOf(")", i + 2);
+      i = close === -1 || close >= to ? to : close + 1;
+      continue;
+    }
+
+    if (!TERMINATORS.includes(ch)) {
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < to && TERMINATORS.includes(text[end])) {
+      end++;
+    }
+    const run = text.slice(i, end);
+    while (end < to && CLOSERS.includes(text[end])) {
+      end++;
+    }
+
+    if (end < to && !/\s/.test(text[end])) {
+      // Decimal, URL or something like "?!abc": not a boundary
+      i = end;
+      continue;
+    }
+
+    if (run === "." && isAbbreviation(text, start, i)) {
+      i = end;
+      continue;
+    }
+
+    if (run === "..." || run === "…") {
+      const next = skipWhitespace(end);
+      if (next < to && /\p{Ll}/u.test(text[next])) {
+        i = end;
+        continue;
+      }
+    }
+
+    sentences.push({ from: start, to: end });
+    start = skipWhitespace(end);
+    i = start;
+  }
+
+  if (start < to && text.slice(start, to).trim() !== "") {
+    sentences.push({ from: start, to: trimEndOffset(text, start, to) });
+  }
+
+  return sentences;
+}
+
+function isAbbreviation(text: string, start: number, dot: number): boolean {
+  let wordStart = dot;
+  while (wordStart > start && /[\p{L}.]/u.test(text[wordStart - 1])) {
+    wordStart--;
+  }
+  // "Paul's." isn't an initial
+  if (wordStart > start && !/[\s(["“‘]/.test(text[wordStart - 1])) {
+    return false;
+  }
+  const word = text.slice(wordStart, dot).toLowerCase();
+  // Single letters are initials ("J. R. R. Tolkien")
+  return word.length === 1 || ABBREVIATIONS.has(word);
+}
+
+function trimEndOffset(text: string, from: number, to: number): number {
+  while (to > from && /\s/.test(text[to - 1])) {
+    to--;
+  }
+  return to;
+}
@@ -1,8 +1,82 @@
-import { App, Modal, Notice } from "obsidian";
-
+import {
+  App,
+  FuzzySuggestModal,
+  Modal,
+  Notice,
+  Setting,
+  TFile,
+} from "obsidian";
+import { SessionJournal, describeJournal } from "./journal";
+import {
+  PENALTY_TYPE_LABELS,
+  PenaltyStep,
+  PenaltyType,
+  SessionPreset,
+} from "./settings";
+import { GoalMode, goalUsesTime, goalUsesWords } from "./goals";
+import { describeSoftPenalty, isSoftPenalty } from "./penalty";
+import { SessionScope } from "./scope";
+import { FocusPolicies } from "./focus";
+import { ActivityPolicy } from "./integrity";
+import { EXPORT_FORMAT_LABELS, ExportFormat } from "./exchange";
+
+/**
+ * Everything a single session runs with. Starts out as the global settings
+ * (or a preset) and can be overridden per session in the config modal.
+ */
 export interface SessionConfig {
+  goalMode: GoalMode;
   durationMinutes: number | null;
   wordCountGoal: number | null;
+  penaltyType: PenaltyType;
+  // Penalty for each strike when penaltyType is "escalating"
+  escalationLadder: PenaltyStep[];
+  // Words needed to lift a blur or scramble penalty
+  softPenaltyReleaseWords: number;
+  lockCooldownSeconds: number;
+  scope: SessionScope;
+  // What happens when the writer leaves the editor, and how many times per
+  // session they can pause (0 = unlimited)
+  focusPolicies: FocusPolicies;
+  pauseTokens: number;
+  // Whether pasted or inserted text counts toward word goals and resets the
+  // idle timer
+  pasteCountsTowardGoal: boolean;
+  pasteResetsTimer: boolean;
+  // What besides adding text counts as activity, and the revising time
+  // allowed per session under "revision-budget"
+  activityPolicy: ActivityPolicy;
+  revisionBudgetSeconds: number;
+  idleTimeoutSeconds: number;
+  warningThresholdSeconds: number;
+  practiceMode: boolean;
+  // Name of the preset the session was started from, if any
+  presetName: string | null;
+  // Writing prompt the session was started with, if any
+  prompt: string | null;
+}
+
+/**
+ * Apply a preset on top of the default session configuration.
+ */
+export function sessionConfigFromPreset(
+  preset: SessionPreset,
+  defaults: SessionConfig
+): SessionConfig {
+  return {
+    ...defaults,
+    goalMode: preset.wordCountGoal !== null ? "words" : "time",
+    durationMinutes: preset.durationMinutes,
+    wordCountGoal: preset.wordCountGoal,
+    penaltyType: preset.penaltyType,
+    idleTimeoutSeconds: preset.idleTimeoutSeconds,
+    warningThresholdSeconds: Math.min(
+      defaults.warningThresholdSeconds,
+      preset.idleTimeoutSeconds
+    ),
+    practiceMode: preset.practiceMode,
+    presetName: preset.name,
+  };
 }
 
 export class SessionConfigModal extends Modal {
@@ -10,26 +84,36 @@ export class SessionConfigModal extends Modal {
   onSubmit: (result: SessionConfig) => void;
   durationMinutes: number;
   wordCountGoal: number;
-  useWordCount: boolean;
+  goalMode: GoalMode;
   practiceMode: boolean;
-  penaltyType: "all" | "paragraph" | "sentence";
+  penaltyType: PenaltyType;
+  idleTimeoutSeconds: number;
+  warningThresholdSeconds: number;
+  presets: SessionPreset[];
+  presetName: string | null = null;
+  private defaults: SessionConfig;
+  private onCancel: (() => void) | null;
 
   constructor(
     app: App,
-    defaultDuration: number,
-    defaultWordCount: number,
+    defaults: SessionConfig,
     hasExistingContent: boolean,
-    practiceMode: boolean,
-    penaltyType: "all" | "paragraph" | "sentence",
-    onSubmit: (result: SessionConfig) => void
+    presets: SessionPreset[],
+    onSubmit: (result: SessionConfig) => void,
+    onCancel: (() => void) | null = null
   ) {
     super(app);
     this.onSubmit = onSubmit;
-    this.durationMinutes = defaultDuration;
-    this.wordCountGoal = defaultWordCount;
-    this.useWordCount = defaultWordCount > 0;
-    this.practiceMode = practiceMode;
-    this.penaltyType = penaltyType;
+    this.onCancel = onCancel;
+    this.defaults = defaults;
+    this.durationMinutes = defaults.durationMinutes ?? 5;
+    this.wordCountGoal = defaults.wordCountGoal ?? 0;
+    this.goalMode = defaults.goalMode;
+    this.practiceMode = defaults.practiceMode;
+    this.penaltyType = defaults.penaltyType;
+    this.idleTimeoutSeconds = defaults.idleTimeoutSeconds;
+    this.warningThresholdSeconds = defaults.warningThresholdSeconds;
+    this.presets = presets;
   }
 
   onOpen() {
@@ -39,27 +123,45 @@ export class SessionConfigModal extends Modal {
 
     this.setTitle("Start Zap Session");
 
-    // Brief warning line
-    const penaltyText =
-      this.penaltyType === "all"
-        ? "everything"
-        : this.penaltyType === "paragraph"
-        ? "the last paragraph"
-        : "the last sentence";
-
-    if (this.practiceMode) {
-      contentEl.createEl("p", {
-        text: `Practice mode is ON — stopping will delete ${penaltyText}, but you can recover it.`,
-        cls: "dangerous-writing-warning-text",
-      });
-    } else {
-      contentEl.createEl("p", {
-        text: `Not in practice mode — if you stop typing, you lose ${penaltyText}!`,
-        cls: "dangerous-writing-warning-text",
-      });
+    // Brief warning line, updated when the session options change
+    const warningEl = contentEl.createEl("p", {
+      cls: "dangerous-writing-warning-text",
+    });
+    const renderWarning = () => {
+      if (isSoftPenalty(this.penaltyType)) {
+        warningEl.setText(
+          `Non-destructive penalty — if you stop typing, ${describeSoftPenalty(
+            this.penaltyType,
+            this.defaults
+          )}. Nothing gets deleted.`
+        );
+        return;
+      }
+
+      const penaltyText =
+        this.penaltyType === "all"
+          ? "everything you wrote this session"
+          : this.penaltyType === "paragraph"
+          ? "the last paragraph"
+          : this.penaltyType === "sentence"
+          ? "the last sentence"
+          : `a bit more each time (${this.defaults.escalationLadder.length} strikes)`;
+
+      warningEl.setText(
+        this.practiceMode
+          ? `Practice mode is ON — stopping will delete ${penaltyText}, but you can recover it.`
+          : `Not in practice mode — if you stop typing, you lose ${penaltyText}!`
+      );
+    };
+    renderWarning();
+
+    // Named presets
+    let presetWrap: HTMLElement | null = null;
+    if (this.presets.length > 0) {
+      presetWrap = contentEl.createDiv({ cls: "dw-chips dw-presets" });
     }
 
-    // Segmented toggle (Minutes / Words)
+    // Segmented toggle (Minutes / Words / Both)
     const seg = contentEl.createDiv({ cls: "dw-seg" });
     const minutesBtn = seg.createEl("button", {
       text: "Minutes",
@@ -69,6 +171,10 @@ export class SessionConfigModal extends Modal {
       text: "Words",
       cls: "dw-seg-btn",
     });
+    const bothBtn = seg.createEl("button", {
+      text: "Both",
+      cls: "dw-seg-btn",
+    });
 
     // Picker area
     const picker = contentEl.createDiv({ cls: "dw-picker" });
@@ -81,6 +187,7 @@ export class SessionConfigModal extends Modal {
     };
 
     type Mode = "minutes" | "words";
+    type Tab = Mode | "both";
 
     const CONFIG: Record<
       Mode,
@@ -105,16 +212,10 @@ export class SessionConfigModal extends Modal {
       },
     };
 
-    let inputEl: HTMLInputElement | null = null;
-    let chipsWrap: HTMLElement | null = null;
-
-    const renderPicker = (mode: Mode) => {
-      minutesBtn.classList.toggle("is-active", mode === "minutes");
-      wordsBtn.classList.toggle("is-active", mode === "words");
+    const renderGoal = (container: HTMLElement, mode: Mode) => {
+      let inputEl: HTMLInputElement | null = null;
 
-      picker.empty();
-
-      chipsWrap = picker.createDiv({ cls: "dw-chips" });
+      const chipsWrap = container.createDiv({ cls: "dw-chips" });
       for (const preset of CONFIG[mode].presets) {
         const btn = chipsWrap.createEl("button", {
           text: String(preset),
@@ -124,11 +225,11 @@ export class SessionConfigModal extends Modal {
         btn.onclick = () => {
           CONFIG[mode].set(preset);
           if (inputEl) inputEl.value = String(preset);
-          if (chipsWrap) setActiveChip(chipsWrap, preset);
+          setActiveChip(chipsWrap, preset);
         };
       }
 
-      const row = picker.createDiv({ cls: "dw-input-row" });
+      const row = container.createDiv({ cls: "dw-input-row" });
       inputEl = row.createEl("input", {
         type: "text",
         cls: "dw-input",
@@ -139,7 +240,7 @@ export class SessionConfigModal extends Modal {
         const num = parseInt(inputEl!.value);
         if (!isNaN(num) && num > 0) {
           CONFIG[mode].set(num);
-          if (chipsWrap) setActiveChip(chipsWrap, num);
+          setActiveChip(chipsWrap, num);
         }
       });
       row.createEl("span", { text: CONFIG[mode].unit, cls: "dw-unit" });
@@ -147,14 +248,147 @@ export class SessionConfigModal extends Modal {
       setActiveChip(chipsWrap, CONFIG[mode].get());
     };
 
-    const setMode = (mode: Mode) => {
-      this.useWordCount = mode === "words";
-      renderPicker(mode);
+    const renderPicker = (tab: Tab) => {
+      minutesBtn.classList.toggle("is-active", tab === "minutes");
+      wordsBtn.classList.toggle("is-active", tab === "words");
+      bothBtn.classList.toggle("is-active", tab === "both");
+
+      picker.empty();
+
+      if (tab !== "both") {
+        renderGoal(picker, tab);
+        return;
+      }
+
+      // How the two goals combine
+      const rules = picker.createDiv({ cls: "dw-chips dw-goal-rules" });
+      const withinBtn = rules.createEl("button", {
+        text: "Words within time",
+        cls: "dw-chip",
+      });
+      const andBtn = rules.createEl("button", {
+        text: "Time and words",
+        cls: "dw-chip",
+      });
+      const ruleDesc = picker.createEl("p", { cls: "dw-goal-rule-desc" });
+
+      const setRule = (mode: GoalMode) => {
+        this.goalMode = mode;
+        withinBtn.classList.toggle("is-active", mode === "words-within-time");
+        andBtn.classList.toggle("is-active", mode === "time-and-words");
+        ruleDesc.setText(
+          mode === "words-within-time"
+            ? "Reach the word goal before time runs out, or the session fails."
+            : "Keep writing until both the time and the word goal are reached."
+        );
+      };
+      withinBtn.onclick = () => setRule("words-within-time");
+      andBtn.onclick = () => setRule("time-and-words");
+      setRule(
+        this.goalMode === "time-and-words"
+          ? "time-and-words"
+          : "words-within-time"
+      );
+
+      renderGoal(picker, "words");
+      renderGoal(picker, "minutes");
     };
 
-    minutesBtn.onclick = () => setMode("minutes");
-    wordsBtn.onclick = () => setMode("words");
-    setMode(this.useWordCount ? "words" : "minutes");
+    const setTab = (tab: Tab) => {
+      if (tab !== "both") {
+        this.goalMode = tab === "words" ? "words" : "time";
+      }
+      renderPicker(tab);
+    };
+
+    const goalTab = (mode: GoalMode): Tab =>
+      mode === "time" ? "minutes" : mode === "words" ? "words" : "both";
+
+    minutesBtn.onclick = () => setTab("minutes");
+    wordsBtn.onclick = () => setTab("words");
+    bothBtn.onclick = () => setTab("both");
+    setTab(goalTab(this.goalMode));
+
+    // Per-session overrides of the global penalty and idle settings
+    const details = contentEl.createEl("details", { cls: "dw-options" });
+    details.createEl("summary", { text: "Session options" });
+    const optionsEl = details.createDiv();
+
+    const renderOptions = () => {
+      optionsEl.empty();
+
+      new Setting(optionsEl).setName("Penalty type").addDropdown((dropdown) =>
+        dropdown
+          .addOptions(PENALTY_TYPE_LABELS)
+          .setValue(this.penaltyType)
+          .onChange((value: PenaltyType) => {
+            this.penaltyType = value;
+            renderWarning();
+          })
+      );
+
+      new Setting(optionsEl).setName("Idle timeout (seconds)").addText((text) =>
+        text.setValue(this.idleTimeoutSeconds.toString()).onChange((value) => {
+          this.idleTimeoutSeconds = parseInt(value) || 0;
+        })
+      );
+
+      new Setting(optionsEl)
+        .setName("Warning threshold (seconds)")
+        .addText((text) =>
+          text
+            .setValue(this.warningThresholdSeconds.toString())
+            .onChange((value) => {
+              this.warningThresholdSeconds = parseFloat(value) || 0;
+            })
+        );
+
+      new Setting(optionsEl).setName("Practice mode").addToggle((toggle) =>
+        toggle.setValue(this.practiceMode).onChange((value) => {
+          this.practiceMode = value;
+          renderWarning();
+        })
+      );
+    };
+    renderOptions();
+
+    const selectPreset = (preset: SessionPreset | null) => {
+      presetWrap?.querySelectorAll("button.dw-chip").forEach((b) => {
+        const btn = b as HTMLButtonElement;
+        btn.classList.toggle("is-active", btn.dataset.value === preset?.id);
+      });
+      const config = preset
+        ? sessionConfigFromPreset(preset, this.defaults)
+        : this.defaults;
+      if (config.wordCountGoal !== null) {
+        this.wordCountGoal = config.wordCountGoal;
+      }
+      if (config.durationMinutes !== null) {
+        this.durationMinutes = config.durationMinutes;
+      }
+      this.penaltyType = config.penaltyType;
+      this.idleTimeoutSeconds = config.idleTimeoutSeconds;
+      this.warningThresholdSeconds = config.warningThresholdSeconds;
+      this.practiceMode = config.practiceMode;
+      this.presetName = config.presetName;
+      this.goalMode = config.goalMode;
+      setTab(goalTab(config.goalMode));
+      renderOptions();
+      renderWarning();
+    };
+
+    let selectedPresetId: string | null = null;
+    for (const preset of this.presets) {
+      const btn = presetWrap!.createEl("button", {
+        text: preset.name,
+        cls: "dw-chip",
+      });
+      btn.dataset.value = preset.id;
+      btn.onclick = () => {
+        selectedPresetId = selectedPresetId === preset.id ? null : preset.id;
+        selectPreset(selectedPresetId === preset.id ? preset : null);
+      };
+    }
 
     // Buttons
     const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
@@ -169,17 +403,37 @@ export class SessionConfigModal extends Modal {
       cls: "dw-btn dw-btn-cta",
     });
     startBtn.onclick = () => {
-      if (this.useWordCount && this.wordCountGoal <= 0) {
+      const usesWords = goalUsesWords(this.goalMode);
+      const usesTime = goalUsesTime(this.goalMode);
+      if (usesWords && this.wordCountGoal <= 0) {
         new Notice("Please enter a valid word count goal");
         return;
       }
-      if (!this.useWordCount && this.durationMinutes <= 0) {
+      if (usesTime && this.durationMinutes <= 0) {
         new Notice("Please enter a valid duration");
         return;
       }
+      if (this.idleTimeoutSeconds <= 0 || this.idleTimeoutSeconds > 300) {
+        new Notice("Idle timeout must be between 1 and 300 seconds");
+        return;
+      }
+      if (
+        this.warningThresholdSeconds <= 0 ||
+        this.warningThresholdSeconds > this.idleTimeoutSeconds
+      ) {
+        new Notice("Warning threshold must be between 0 and the idle timeout");
+        return;
+      }
       this.result = {
-        durationMinutes: this.useWordCount ? null : this.durationMinutes,
-        wordCountGoal: this.useWordCount ? this.wordCountGoal : null,
+        ...this.defaults,
+        goalMode: this.goalMode,
+        durationMinutes: usesTime ? this.durationMinutes : null,
+        wordCountGoal: usesWords ? this.wordCountGoal : null,
+        penaltyType: this.penaltyType,
+        idleTimeoutSeconds: this.idleTimeoutSeconds,
+        warningThresholdSeconds: this.warningThresholdSeconds,
+        practiceMode: this.practiceMode,
+        presetName: this.presetName,
       };
       this.onSubmit(this.result);
       this.close();
@@ -188,6 +442,9 @@ export class SessionConfigModal extends Modal {
 
   onClose() {
     this.contentEl.empty();
+    if (this.result === null) {
+      this.onCancel?.();
+    }
   }
 }
 
@@ -236,3 +493,414 @@ export class FirstTimeWarningModal extends Modal {
     this.contentEl.empty();
   }
 }
+
+export type RecoveryAction = "resume" | "abandon" | "restore";
+
+export class SessionRecoveryModal extends Modal {
+  journal: SessionJournal;
+  canResume: boolean;
+  onChoose: (action: RecoveryAction) => void;
+
+  constructor(
+    app: App,
+    journal: SessionJournal,
+    canResume: boolean,
+    onChoose: (action: RecoveryAction) => void
+  ) {
+    super(app);
+    this.journal = journal;
+    this.canResume = canResume;
+    this.onChoose = onChoose;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+
+    this.setTitle("Interrupted Zap Session");
+
+    contentEl.createEl("p", {
+      text: describeJournal(this.journal),
+      cls: "dw-subtitle",
+    });
+
+    const list = contentEl.createEl("ul", { cls: "dw-warning-list" });
+    if (this.canResume) {
+      list.createEl("li", {
+        text: "Resume: reopen the note and continue the sprint where it stopped",
+      });
+    }
+    list.createEl("li", {
+      text: "Record as abandoned: keep the note as it is and log the session as failed",
+    });
+    list.createEl("li", {
+      text: "Restore snapshot: put the note back the way it was before the session",
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+    const choose = (action: RecoveryAction) => {
+      this.onChoose(action);
+      this.close();
+    };
+
+    const restoreBtn = btnRow.createEl("button", {
+      text: "Restore snapshot",
+      cls: "dw-btn",
+    });
+    restoreBtn.onclick = () => choose("restore");
+
+    const abandonBtn = btnRow.createEl("button", {
+      text: "Record as abandoned",
+      cls: "dw-btn",
+    });
+    abandonBtn.onclick = () => choose("abandon");
+
+    if (this.canResume) {
+      const resumeBtn = btnRow.createEl("button", {
+        text: "Resume",
+        cls: "dw-btn dw-btn-cta",
+      });
+      resumeBtn.onclick = () => choose("resume");
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class PresetModal extends Modal {
+  preset: SessionPreset;
+  onSave: (preset: SessionPreset) => void;
+
+  constructor(
+    app: App,
+    preset: SessionPreset,
+    onSave: (preset: SessionPreset) => void
+  ) {
+    super(app);
+    // Edit a copy so cancelling leaves the original untouched
+    this.preset = { ...preset };
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+
+    this.setTitle("Session Preset");
+
+    new Setting(contentEl).setName("Name").addText((text) =>
+      text
+        .setPlaceholder("Morning pages")
+        .setValue(this.preset.name)
+        .onChange((value) => {
+          this.preset.name = value.trim();
+        })
+    );
+
+    const useWords = this.preset.wordCountGoal !== null;
+    new Setting(contentEl)
+      .setName("Goal")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("minutes", "Minutes")
+          .addOption("words", "Words")
+          .setValue(useWords ? "words" : "minutes")
+          .onChange((value) => {
+            const amount =
+              this.preset.wordCountGoal ?? this.preset.durationMinutes ?? 0;
+            this.preset.wordCountGoal = value === "words" ? amount : null;
+            this.preset.durationMinutes = value === "words" ? null : amount;
+          })
+      )
+      .addText((text) =>
+        text
+          .setValue(
+            String(this.preset.wordCountGoal ?? this.preset.durationMinutes)
+          )
+          .onChange((value) => {
+            const num = parseInt(value) || 0;
+            if (this.preset.wordCountGoal !== null) {
+              this.preset.wordCountGoal = num;
+            } else {
+              this.preset.durationMinutes = num;
+            }
+          })
+      );
+
+    new Setting(contentEl).setName("Penalty type").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(PENALTY_TYPE_LABELS)
+        .setValue(this.preset.penaltyType)
+        .onChange((value: PenaltyType) => {
+          this.preset.penaltyType = value;
+        })
+    );
+
+    new Setting(contentEl).setName("Idle timeout (seconds)").addText((text) =>
+      text
+        .setValue(this.preset.idleTimeoutSeconds.toString())
+        .onChange((value) => {
+          this.preset.idleTimeoutSeconds = parseInt(value) || 0;
+        })
+    );
+
+    new Setting(contentEl).setName("Practice mode").addToggle((toggle) =>
+      toggle.setValue(this.preset.practiceMode).onChange((value) => {
+        this.preset.practiceMode = value;
+      })
+    );
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+    const cancelBtn = btnRow.createEl("button", {
+      text: "Cancel",
+      cls: "dw-btn",
+    });
+    cancelBtn.onclick = () => this.close();
+
+    const saveBtn = btnRow.createEl("button", {
+      text: "Save Preset",
+      cls: "dw-btn dw-btn-cta",
+    });
+    saveBtn.onclick = () => {
+      const goal = this.preset.wordCountGoal ?? this.preset.durationMinutes;
+      if (!this.preset.name) {
+        new Notice("Please enter a preset name");
+        return;
+      }
+      if (goal === null || goal <= 0) {
+        new Notice("Please enter a valid goal");
+        return;
+      }
+      if (
+        this.preset.idleTimeoutSeconds <= 0 ||
+        this.preset.idleTimeoutSeconds > 300
+      ) {
+        new Notice("Idle timeout must be between 1 and 300 seconds");
+        return;
+      }
+      this.onSave(this.preset);
+      this.close();
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class SessionNoteModal extends Modal {
+  note: string;
+  onSave: (note: string) => void;
+
+  constructor(app: App, note: string, onSave: (note: string) => void) {
+    super(app);
+    this.note = note;
+    this.onSave = onSave;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+
+    this.setTitle("Session Note");
+
+    new Setting(contentEl)
+      .setName("Note")
+      .setDesc("Leave empty to remove the note")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Accidental start")
+          .setValue(this.note)
+          .onChange((value) => {
+            this.note = value;
+          })
+      );
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+    const cancelBtn = btnRow.createEl("button", {
+      text: "Cancel",
+      cls: "dw-btn",
+    });
+    cancelBtn.onclick = () => this.close();
+
+    const saveBtn = btnRow.createEl("button", {
+      text: "Save Note",
+      cls: "dw-btn dw-btn-cta",
+    });
+    saveBtn.onclick = () => {
+      this.onSave(this.note.trim());
+      this.close();
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class DeleteSessionModal extends Modal {
+  description: string;
+  onDelete: () => void;
+
+  constructor(app: App, description: string, onDelete: () => void) {
+    super(app);
+    this.description = description;
+    this.onDelete = onDelete;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+
+    this.setTitle("Delete Session");
+
+    contentEl.createEl("p", {
+      text: `Delete the session from ${this.description}? It will no longer count toward your stats or streaks. This can't be undone.`,
+    });
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+    const cancelBtn = btnRow.createEl("button", {
+      text: "Cancel",
+      cls: "dw-btn",
+    });
+    cancelBtn.onclick = () => this.close();
+
+    const deleteBtn = btnRow.createEl("button", {
+      text: "Delete Session",
+      cls: "dw-btn dw-btn-cta",
+    });
+    deleteBtn.onclick = () => {
+      this.onDelete();
+      this.close();
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * What to export: the format, the vault path without extension, and an
+ * optional date range as "YYYY-MM-DD" strings (empty = unbounded).
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  path: string;
+  from: string;
+  to: string;
+}
+
+export class ExportModal extends Modal {
+  options: ExportOptions;
+  onExport: (options: ExportOptions) => void;
+
+  constructor(
+    app: App,
+    options: ExportOptions,
+    onExport: (options: ExportOptions) => void
+  ) {
+    super(app);
+    this.options = { ...options };
+    this.onExport = onExport;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("dw-modal");
+
+    this.setTitle("Export Session History");
+
+    new Setting(contentEl).setName("Format").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(EXPORT_FORMAT_LABELS)
+        .setValue(this.options.format)
+        .onChange((value: ExportFormat) => {
+          this.options.format = value;
+        })
+    );
+
+    new Setting(contentEl)
+      .setName("File")
+      .setDesc("Path in the vault; the extension is added for you")
+      .addText((text) =>
+        text.setValue(this.options.path).onChange((value) => {
+          this.options.path = value.trim();
+        })
+      );
+
+    new Setting(contentEl)
+      .setName("Date range")
+      .setDesc("Leave empty to export every session")
+      .addText((text) => {
+        text.inputEl.type = "date";
+        text.setValue(this.options.from).onChange((value) => {
+          this.options.from = value;
+        });
+      })
+      .addText((text) => {
+        text.inputEl.type = "date";
+        text.setValue(this.options.to).onChange((value) => {
+          this.options.to = value;
+        });
+      });
+
+    const btnRow = contentEl.createDiv({ cls: "dw-btn-row" });
+    const cancelBtn = btnRow.createEl("button", {
+      text: "Cancel",
+      cls: "dw-btn",
+    });
+    cancelBtn.onclick = () => this.close();
+
+    const exportBtn = btnRow.createEl("button", {
+      text: "Export",
+      cls: "dw-btn dw-btn-cta",
+    });
+    exportBtn.onclick = () => {
+      if (!this.options.path) {
+        new Notice("Please enter a file path");
+        return;
+      }
+      this.onExport(this.options);
+      this.close();
+    };
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Pick a CSV or JSON session export in the vault to import.
+ */
+export class ImportFileModal extends FuzzySuggestModal<TFile> {
+  onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a session history export (.csv or .json)");
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault
+      .getFiles()
+      .filter((file) => file.extension === "csv" || file.extension === "json");
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    this.onChoose(file);
+  }
+}
@@ -0,0 +1,248 @@
+import type { SessionConfig } from "./modal";
+import { PenaltyStep, PenaltyType, SoftPenaltyType } from "./settings";
+import {
+  Block,
+  findSentences,
+  isProtected,
+  parseBlocks,
+  TextRange,
+} from "./markdown";
+
+/**
+ * The part of a note that was written during the current session, as
+ * offsets into the current content.
+ */
+export interface SessionRegion {
+  from: number;
+  to: number;
+}
+
+/**
+ * Locate the text written during the session by diffing the current content
+ * against the snapshot taken when the session began. Everything before the
+ * first changed character and after the last changed character is treated as
+ * pre-existing text, so typing in the middle of a note works the same as
+ * typing at the end.
+ */
+export function findSessionRegion(
+  initialContent: string,
+  currentContent: string
+): SessionRegion {
+  const maxPrefix = Math.min(initialContent.length, currentContent.length);
+  let prefix = 0;
+  while (
+    prefix < maxPrefix &&
+    initialContent.charCodeAt(prefix) === currentContent.charCodeAt(prefix)
+  ) {
+    prefix++;
+  }
+
+  // The suffix must not overlap the prefix in either string
+  const maxSuffix = Math.min(
+    initialContent.length - prefix,
+    currentContent.length - prefix
+  );
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    initialContent.charCodeAt(initialContent.length - 1 - suffix) ===
+      currentContent.charCodeAt(currentContent.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+
+  // New text can often sit either side of the whitespace around it, e.g. a
+  // paragraph typed between two others. Count that whitespace as part of the
+  // text after the session region so penalties leave the separator alone.
+  let from = prefix;
+  let to = currentContent.length - suffix;
+  while (
+    from > 0 &&
+    to > from &&
+    /\s/.test(currentContent[to - 1]) &&
+    currentContent[to - 1] === currentContent[from - 1]
+  ) {
+    from--;
+    to--;
+  }
+  return { from, to };
+}
+
+export function isSoftPenalty(
+  penaltyType: PenaltyType | PenaltyStep
+): penaltyType is SoftPenaltyType {
+  return (
+    penaltyType === "blur" ||
+    penaltyType === "scramble" ||
+    penaltyType === "fade" ||
+    penaltyType === "lock"
+  );
+}
+
+/**
+ * What a non-destructive penalty does, phrased to follow "if you stop
+ * typing, ...".
+ */
+export function describeSoftPenalty(
+  penaltyType: SoftPenaltyType,
+  config: SessionConfig
+): string {
+  switch (penaltyType) {
+    case "blur":
+      return `your session text blurs until you write ${config.softPenaltyReleaseWords} more words`;
+    case "scramble":
+      return `your recent words get scrambled until you write ${config.softPenaltyReleaseWords} more words`;
+    case "fade":
+      return "your text fades away until you start typing again";
+    case "lock":
+      return `the note locks for ${config.lockCooldownSeconds} seconds`;
+  }
+}
+
+/**
+ * Work out which ranges of the current content a penalty removes. Only prose
+ * inside the session region is ever removed: frontmatter, fenced code, math
+ * blocks and embeds are left alone even if they were written this session.
+ * Ranges are returned in document order and don't overlap.
+ */
+export function planPenalty(
+  content: string,
+  region: SessionRegion,
+  penaltyType: PenaltyStep
+): TextRange[] {
+  // Parse the whole note so fences opened before the region are respected
+  const prose = parseBlocks(content).filter(
+    (block) =>
+      !isProtected(block) && block.to > region.from && block.from < region.to
+  );
+  if (prose.length === 0) {
+    return [];
+  }
+
+  let ranges: TextRange[];
+  if (penaltyType === "all") {
+    ranges = prose.map((block) => clamp(block, region));
+  } else if (penaltyType === "word") {
+    ranges = [clamp(lastWord(content, prose[prose.length - 1]), region)];
+  } else if (penaltyType === "paragraph") {
+    ranges = [clamp(prose[prose.length - 1], region)];
+  } else {
+    ranges = [clamp(lastSentence(content, prose[prose.length - 1]), region)];
+  }
+
+  ranges = dropBlankLines(content, mergeRanges(content, ranges), region);
+  return extendTail(content, ranges, region);
+}
+
+/**
+ * The last sentence of a block. The first sentence takes the block's list
+ * marker, heading hashes or quote prefix with it.
+ */
+function lastSentence(content: string, block: Block): TextRange {
+  const sentences = findSentences(content, block.contentFrom, block.to);
+  if (sentences.length <= 1) {
+    return { from: block.from, to: block.to };
+  }
+  return sentences[sentences.length - 1];
+}
+
+/**
+ * The last word of a block, taking the list marker or other prefix with it
+ * if it's the only word.
+ */
+function lastWord(content: string, block: Block): TextRange {
+  let to = block.to;
+  while (to > block.contentFrom && /\s/.test(content[to - 1])) {
+    to--;
+  }
+  let from = to;
+  while (from > block.contentFrom && !/\s/.test(content[from - 1])) {
+    from--;
+  }
+  if (content.slice(block.contentFrom, from).trim() === "") {
+    from = block.from;
+  }
+  return { from, to };
+}
+
+function clamp(range: TextRange, region: SessionRegion): TextRange {
+  return {
+    from: Math.max(range.from, region.from),
+    to: Math.min(range.to, region.to),
+  };
+}
+
+// Join ranges separated only by whitespace, e.g. consecutive paragraphs
+function mergeRanges(content: string, ranges: TextRange[]): TextRange[] {
+  const merged: TextRange[] = [];
+  for (const range of ranges) {
+    if (range.to <= range.from) {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (last && content.slice(last.to, range.from).trim() === "") {
+      last.to = range.to;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * A range that takes whole lines from before session text that's kept, e.g.
+ * a paragraph before a code block, also takes the blank lines after it so no
+ * gap is left behind.
+ */
+function dropBlankLines(
+  content: string,
+  ranges: TextRange[],
+  region: SessionRegion
+): TextRange[] {
+  for (const range of ranges) {
+    const lineStart = content.lastIndexOf("\n", range.from - 1) + 1;
+    if (content.slice(lineStart, range.from).trim() !== "") {
+      continue;
+    }
+    let to = range.to;
+    while (to < region.to && /\s/.test(content[to])) {
+      to++;
+    }
+    if (to < region.to && content.slice(range.to, to).includes("\n")) {
+      range.to = to;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * If the last range reaches the end of the session text, also remove the
+ * whitespace before it so no dangling blank lines or spaces are left behind.
+ * The whitespace after it goes too at the end of the note, or when nothing
+ * written before it this session is kept. Otherwise it separates the session
+ * text from the text that follows.
+ */
+function extendTail(
+  content: string,
+  ranges: TextRange[],
+  region: SessionRegion
+): TextRange[] {
+  let last = ranges[ranges.length - 1];
+  if (!last || content.slice(last.to, region.to).trim() !== "") {
+    return ranges;
+  }
+  while (last.from > region.from && /\s/.test(content[last.from - 1])) {
+    last.from--;
+  }
+  // The extended range may now touch the one before it
+  const previous = ranges[ranges.length - 2];
+  if (previous && previous.to >= last.from) {
+    previous.to = last.to;
+    ranges.pop();
+    last = previous;
+  }
+  if (region.to === content.length || last.from === region.from) {
+    last.to = region.to;
+  }
+  return ranges;
+}
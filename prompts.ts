@@ -0,0 +1,119 @@
+import { App, TFile, TFolder, moment } from "obsidian";
+
+// How a prompt is written at the top of a new prompt note
+export type PromptStyle = "heading" | "callout";
+
+export const PROMPT_STYLE_LABELS: Record<PromptStyle, string> = {
+  heading: "Heading",
+  callout: "Callout",
+};
+
+export const BUILT_IN_PROMPTS = [
+  "Describe the room you woke up in this morning as if you'd never seen it before.",
+  "A letter arrives thirty years late. Who sent it, and what does it say?",
+  "Write about a time you changed your mind about something important.",
+  "Two strangers are stuck in an elevator. Only one of them knows why.",
+  "What would you tell yourself from ten years ago, and would you have listened?",
+  "A town where everyone is allowed one lie a year. Today is yours.",
+  "Describe a meal that meant more than the food.",
+  "The last bookstore on Earth is closing tonight.",
+  "Write the argument you never had.",
+  "Someone finds a key in their pocket that they've never seen before.",
+  "What does your perfect ordinary day look like, hour by hour?",
+  "A character returns to their childhood home and it's exactly the same. Too much the same.",
+  "Write about a sound that always takes you somewhere else.",
+  "The map shows an island that isn't there.",
+  "Explain something you love to someone who has never heard of it.",
+  "A robot is learning to lie. Today is its first attempt.",
+  "Write about the moment you realized you were an adult.",
+  "The weather forecast is always right, and tomorrow says something impossible.",
+  "Describe a place you've only been in dreams.",
+  "Your character has exactly one hour left. They spend it on something unexpected.",
+];
+
+// List markers and numbering stripped from prompt lines
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+
+/**
+ * Prompts in a note: one per line, with list markers removed. Frontmatter,
+ * headings, blank lines and comments are skipped.
+ */
+export function parsePrompts(content: string): string[] {
+  const body = content.replace(/^---\n[\s\S]*?\n---(?:\n|$)/, "");
+  return body
+    .split("\n")
+    .map((line) => line.replace(LIST_MARKER, "").trim())
+    .filter(
+      (line) => line !== "" && !line.startsWith("#") && !line.startsWith("%%")
+    );
+}
+
+/**
+ * Prompts from the configured vault note, or from every note in the
+ * configured folder and its subfolders.
+ */
+export async function loadUserPrompts(
+  app: App,
+  source: string
+): Promise<string[]> {
+  const path = source.trim().replace(/\/+$/, "");
+  if (path === "") {
+    return [];
+  }
+  const target =
+    app.vault.getAbstractFileByPath(path) ??
+    app.vault.getAbstractFileByPath(`${path}.md`);
+  const files: TFile[] = [];
+  if (target instanceof TFile) {
+    files.push(target);
+  } else if (target instanceof TFolder) {
+    files.push(
+      ...app.vault
+        .getMarkdownFiles()
+        .filter((file) => file.path.startsWith(`${target.path}/`))
+    );
+  }
+  const prompts: string[] = [];
+  for (const file of files) {
+    prompts.push(...parsePrompts(await app.vault.cachedRead(file)));
+  }
+  return prompts;
+}
+
+export function pickPrompt(prompts: string[]): string | null {
+  return prompts.length > 0
+    ? prompts[Math.floor(Math.random() * prompts.length)]
+    : null;
+}
+
+/**
+ * The prompt as it's written at the top of the note, followed by a blank line
+ * to start writing after.
+ */
+export function formatPrompt(prompt: string, style: PromptStyle): string {
+  return style === "callout"
+    ? `> [!quote] Prompt\n> ${prompt}\n\n`
+    : `## ${prompt}\n\n`;
+}
+
+/**
+ * Vault path for a new note from a template such as
+ * "Prompts/{{date}} {{prompt}}". {{date}} and {{time}} use the current time;
+ * {{prompt}} is the start of the prompt with characters that aren't allowed
+ * in file names removed.
+ */
+export function renderNotePath(template: string, prompt: string): string {
+  const now = moment();
+  const title = prompt
+    .replace(/[\\/:*?"<>|#^[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 50)
+    .trim();
+  const path = template
+    .replace(/\{\{date\}\}/g, now.format("YYYY-MM-DD"))
+    .replace(/\{\{time\}\}/g, now.format("HHmm"))
+    .replace(/\{\{prompt\}\}/g, title)
+    .trim();
+  return `${path || now.format("YYYY-MM-DD HHmm")}.md`;
+}
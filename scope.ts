@@ -0,0 +1,79 @@
+import { App, TFile, getAllTags } from "obsidian";
+
+export type ScopeType = "file" | "files" | "folder" | "tag";
+
+/**
+ * Which notes a session covers. Only the fields for the chosen type are
+ * used; the note the session starts in is always in scope.
+ */
+export interface SessionScope {
+  type: ScopeType;
+  files: string[];
+  folder: string;
+  tag: string;
+}
+
+export const SCOPE_TYPE_LABELS: Record<ScopeType, string> = {
+  file: "Single note",
+  files: "List of notes",
+  folder: "Folder",
+  tag: "Tag",
+};
+
+export const DEFAULT_SCOPE: SessionScope = {
+  type: "file",
+  files: [],
+  folder: "",
+  tag: "",
+};
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+/**
+ * Whether `file` belongs to a session that started in `startPath`.
+ */
+export function isInScope(
+  app: App,
+  scope: SessionScope | undefined,
+  startPath: string,
+  file: TFile
+): boolean {
+  if (file.path === startPath) {
+    return true;
+  }
+  switch (scope?.type ?? "file") {
+    case "file":
+      return false;
+    case "files":
+      return scope.files.includes(file.path);
+    case "folder": {
+      // An empty folder means the whole vault
+      const folder = scope.folder.trim().replace(/\/+$/, "");
+      return folder === "" || file.path.startsWith(`${folder}/`);
+    }
+    case "tag": {
+      const tag = normalizeTag(scope.tag);
+      const cache = app.metadataCache.getFileCache(file);
+      const tags = cache ? getAllTags(cache) ?? [] : [];
+      return tag !== "" && tags.some((t) => normalizeTag(t) === tag);
+    }
+  }
+}
+
+/**
+ * Short description of the scope for notices, e.g. "folder Chapters".
+ */
+export function describeScope(scope: SessionScope | undefined): string {
+  switch (scope?.type ?? "file") {
+    case "file":
+      return "this note";
+    case "files":
+      return `${scope.files.length + 1} notes`;
+    case "folder":
+      return scope.folder.trim() ? `folder ${scope.folder.trim()}` : "vault";
+    case "tag":
+      return `#${normalizeTag(scope.tag)}`;
+  }
+}
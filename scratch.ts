@@ -0,0 +1,67 @@
+import { App, moment } from "obsidian";
+
+// What happens to a note Zap created when its session fails or is cancelled
+// before any writing is kept
+export type ScratchCleanup = "delete" | "archive" | "keep";
+
+export const SCRATCH_CLEANUP_LABELS: Record<ScratchCleanup, string> = {
+  delete: "Move to trash",
+  archive: "Move to archive folder",
+  keep: "Keep it",
+};
+
+export interface ScratchNoteOptions {
+  folder: string;
+  // Moment.js format of the note name, e.g. "YYYY-MM-DD HHmm"
+  namePattern: string;
+  // Vault path of a note to copy into the new note, or empty
+  template: string;
+  // YAML lines for the note's frontmatter, or empty for none
+  frontmatter: string;
+}
+
+/**
+ * Fill in {{date}}, {{time}} and {{title}} the way core templates do.
+ */
+export function fillTemplate(
+  text: string,
+  title: string,
+  now: ReturnType<typeof moment>
+): string {
+  return text
+    .replace(/\{\{date\}\}/g, now.format("YYYY-MM-DD"))
+    .replace(/\{\{time\}\}/g, now.format("HH:mm"))
+    .replace(/\{\{title\}\}/g, title);
+}
+
+/**
+ * Path and initial content of a new scratch note.
+ */
+export async function buildScratchNote(
+  app: App,
+  options: ScratchNoteOptions
+): Promise<{ path: string; content: string }> {
+  const now = moment();
+  const name = now.format(options.namePattern || "YYYY-MM-DD HHmm").trim();
+  const folder = options.folder.trim().replace(/\/+$/, "");
+
+  let content = "";
+  if (options.frontmatter.trim()) {
+    content += `---\n${fillTemplate(
+      options.frontmatter.trim(),
+      name,
+      now
+    )}\n---\n`;
+  }
+  const template = options.template
+    ? app.metadataCache.getFirstLinkpathDest(options.template, "")
+    : null;
+  if (template) {
+    content += fillTemplate(await app.vault.read(template), name, now);
+  }
+  if (content !== "" && !content.endsWith("\n")) {
+    content += "\n";
+  }
+
+  return { path: folder ? `${folder}/${name}.md` : `${name}.md`, content };
+}
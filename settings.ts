@@ -1,7 +1,75 @@
 import DangerousWritingPlugin from "./main";
 import { App, PluginSettingTab, Setting } from "obsidian";
+import { GraveyardModal, pruneGraveyard } from "./graveyard";
+import { computeStreaks, isValidTimeZone } from "./streaks";
+import { DEFAULT_SUMMARY_TEMPLATE, SUMMARY_PLACEHOLDERS } from "./summary";
+import { PROMPT_STYLE_LABELS, PromptStyle } from "./prompts";
+import { SCRATCH_CLEANUP_LABELS, ScratchCleanup } from "./scratch";
+import { PresetModal } from "./modal";
+import { ACTIVITY_POLICY_LABELS, ActivityPolicy } from "./integrity";
+import {
+  DEFAULT_WORD_COUNT_OPTIONS,
+  WORD_COUNT_METHOD_LABELS,
+  WordCountMethod,
+} from "./words";
+import {
+  DEFAULT_SCOPE,
+  SCOPE_TYPE_LABELS,
+  ScopeType,
+  SessionScope,
+} from "./scope";
+import {
+  AwayReason,
+  DEFAULT_FOCUS_POLICIES,
+  FOCUS_POLICY_LABELS,
+  FocusPolicies,
+  FocusPolicy,
+} from "./focus";
 
-export type PenaltyType = "all" | "paragraph" | "sentence";
+// Penalties that leave the text alone and wear off
+export type SoftPenaltyType = "blur" | "scramble" | "fade" | "lock";
+
+export type PenaltyType =
+  | "all"
+  | "paragraph"
+  | "sentence"
+  | "escalating"
+  | SoftPenaltyType;
+
+export const PENALTY_TYPE_LABELS: Record<PenaltyType, string> = {
+  all: "Delete everything written this session",
+  paragraph: "Delete last paragraph",
+  sentence: "Delete last sentence",
+  escalating: "Escalate with each lapse",
+  blur: "Blur session text (non-destructive)",
+  scramble: "Scramble recent words (non-destructive)",
+  fade: "Fade text while idle (non-destructive)",
+  lock: "Lock the note for a cooldown (non-destructive)",
+};
+
+// A single rung of the escalating penalty ladder
+export type PenaltyStep = "word" | "sentence" | "paragraph" | "all";
+
+export const PENALTY_STEP_LABELS: Record<PenaltyStep, string> = {
+  word: "Delete last word",
+  sentence: "Delete last sentence",
+  paragraph: "Delete last paragraph",
+  all: "Delete everything written this session",
+};
+
+/**
+ * A named session configuration, e.g. "Morning pages: 750 words, sentence
+ * penalty, 8s idle, practice on". Each preset gets its own start command.
+ */
+export interface SessionPreset {
+  id: string;
+  name: string;
+  durationMinutes: number | null;
+  wordCountGoal: number | null;
+  penaltyType: PenaltyType;
+  idleTimeoutSeconds: number;
+  practiceMode: boolean;
+}
 
 export interface DangerousWritingSettings {
   sessionDurationMinutes: number;
@@ -11,7 +79,54 @@ export interface DangerousWritingSettings {
   warningThresholdSeconds: number;
   showFirstTimeWarning: boolean;
   penaltyType: PenaltyType;
+  // Penalty for each idle lapse in escalating mode; its length is the number
+  // of strikes, and the last strike ends the session
+  escalationLadder: PenaltyStep[];
+  // New words needed to lift a blur or scramble penalty
+  softPenaltyReleaseWords: number;
+  lockCooldownSeconds: number;
+  sessionScope: SessionScope;
+  focusPolicies: FocusPolicies;
+  pauseTokens: number;
+  // Whether pasted or inserted text counts toward word goals and resets the
+  // idle timer
+  pasteCountsTowardGoal: boolean;
+  pasteResetsTimer: boolean;
+  activityPolicy: ActivityPolicy;
+  // Revising time allowed per session under the "revision-budget" policy
+  revisionBudgetSeconds: number;
   warningColor: string;
+  graveyardRetentionDays: number;
+  presets: SessionPreset[];
+  // How words are counted for goals, the status bar and stats
+  wordCountMethod: WordCountMethod;
+  excludeMarkdown: boolean;
+  hyphenatedWordsAsOne: boolean;
+  dailyWordTarget: number;
+  weeklyWordTarget: number;
+  dayRolloverHour: number;
+  timeZone: string;
+  // Vault path of session history exports, without extension
+  exportPath: string;
+  // After a completed session, append a summary line to the daily note
+  dailyNoteSummary: boolean;
+  dailyNoteTemplate: string;
+  // After a completed session, update zap_* fields in the note's frontmatter
+  updateFrontmatter: boolean;
+  useBuiltInPrompts: boolean;
+  // Vault note or folder with the writer's own prompts, one per line
+  promptSource: string;
+  // Path of notes created for prompts, without extension
+  promptNoteTemplate: string;
+  promptStyle: PromptStyle;
+  // Where "Start Zap session in new note" creates its notes
+  scratchFolder: string;
+  scratchNamePattern: string;
+  scratchTemplate: string;
+  scratchFrontmatter: string;
+  // What happens to a note Zap created if its session ends with nothing kept
+  scratchCleanup: ScratchCleanup;
+  scratchArchiveFolder: string;
 }
 
 export const DEFAULT_SETTINGS: DangerousWritingSettings = {
@@ -22,7 +137,40 @@ export const DEFAULT_SETTINGS: DangerousWritingSettings = {
   warningThresholdSeconds: 1.5,
   showFirstTimeWarning: true,
   penaltyType: "all",
+  escalationLadder: ["sentence", "paragraph", "all"],
+  softPenaltyReleaseWords: 10,
+  lockCooldownSeconds: 15,
+  sessionScope: DEFAULT_SCOPE,
+  focusPolicies: DEFAULT_FOCUS_POLICIES,
+  pauseTokens: 3, // 0 means unlimited
+  pasteCountsTowardGoal: false,
+  pasteResetsTimer: false,
+  activityPolicy: "additions",
+  revisionBudgetSeconds: 60,
   warningColor: "#ff0000",
+  graveyardRetentionDays: 30, // 0 keeps zapped content forever
+  presets: [],
+  wordCountMethod: DEFAULT_WORD_COUNT_OPTIONS.method,
+  excludeMarkdown: DEFAULT_WORD_COUNT_OPTIONS.excludeMarkdown,
+  hyphenatedWordsAsOne: DEFAULT_WORD_COUNT_OPTIONS.hyphenatedAsOne,
+  dailyWordTarget: 0, // 0 means any completed session keeps the streak
+  weeklyWordTarget: 0, // 0 means disabled
+  dayRolloverHour: 0,
+  timeZone: "", // empty uses the system time zone
+  exportPath: "Zap/session-history",
+  dailyNoteSummary: false,
+  dailyNoteTemplate: DEFAULT_SUMMARY_TEMPLATE,
+  updateFrontmatter: false,
+  useBuiltInPrompts: true,
+  promptSource: "",
+  promptNoteTemplate: "Zap/Prompts/{{date}} {{prompt}}",
+  promptStyle: "callout",
+  scratchFolder: "Zap/Sprints",
+  scratchNamePattern: "YYYY-MM-DD HHmm",
+  scratchTemplate: "",
+  scratchFrontmatter: "",
+  scratchCleanup: "delete",
+  scratchArchiveFolder: "Zap/Archive",
 };
 
 export class DangerousWritingSettingTab extends PluginSettingTab {
@@ -55,6 +203,17 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
     }
   }
 
+  private async saveStreakSettings() {
+    await this.plugin.saveSettings();
+    this.plugin.updateStatusBar();
+  }
+
+  private async savePresets() {
+    await this.plugin.saveSettings();
+    this.plugin.registerPresetCommands();
+    this.display();
+  }
+
   display(): void {
     const { containerEl } = this;
 
@@ -119,19 +278,173 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Penalty type")
-      .setDesc("What gets deleted when you stop typing")
+      .setDesc(
+        "What gets deleted when you stop typing. Text that was in the note before the session is never touched."
+      )
       .addDropdown((dropdown) =>
         dropdown
-          .addOption("all", "Delete entire file")
-          .addOption("paragraph", "Delete last paragraph")
-          .addOption("sentence", "Delete last sentence")
+          .addOptions(PENALTY_TYPE_LABELS)
           .setValue(this.plugin.settings.penaltyType)
           .onChange(async (value: PenaltyType) => {
             this.plugin.settings.penaltyType = value;
             await this.plugin.saveSettings();
+            this.display(); // Show or hide the penalty's own settings
           })
       );
 
+    const penaltyType = this.plugin.settings.penaltyType;
+    if (penaltyType === "blur" || penaltyType === "scramble") {
+      new Setting(containerEl)
+        .setName("Words to lift the penalty")
+        .setDesc("How many new words you need to write to clear the text")
+        .addText((text) =>
+          text
+            .setPlaceholder("10")
+            .setValue(this.plugin.settings.softPenaltyReleaseWords.toString())
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (num >= 1 && num <= 1000) {
+                this.plugin.settings.softPenaltyReleaseWords = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    if (penaltyType === "lock") {
+      new Setting(containerEl)
+        .setName("Lock cooldown (seconds)")
+        .setDesc("How long the note stays read-only after you stop typing")
+        .addText((text) =>
+          text
+            .setPlaceholder("15")
+            .setValue(this.plugin.settings.lockCooldownSeconds.toString())
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (num >= 1 && num <= 600) {
+                this.plugin.settings.lockCooldownSeconds = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    if (this.plugin.settings.penaltyType === "escalating") {
+      const ladder = this.plugin.settings.escalationLadder;
+      new Setting(containerEl)
+        .setName("Strikes")
+        .setDesc(
+          "How many idle lapses a session allows. Each lapse applies its strike's penalty and the session keeps going, until the last strike ends it."
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("3")
+            .setValue(ladder.length.toString())
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (num >= 1 && num <= 10) {
+                // New strikes repeat the current last rung
+                const last = ladder[ladder.length - 1] ?? "all";
+                this.plugin.settings.escalationLadder = Array.from(
+                  { length: num },
+                  (_, i) => ladder[i] ?? last
+                );
+                await this.plugin.saveSettings();
+                this.display();
+              }
+            })
+        );
+
+      ladder.forEach((step, i) => {
+        new Setting(containerEl)
+          .setName(`Strike ${i + 1}`)
+          .setClass("dw-ladder-step")
+          .addDropdown((dropdown) => {
+            for (const [value, label] of Object.entries(PENALTY_STEP_LABELS)) {
+              dropdown.addOption(value, label);
+            }
+            dropdown.setValue(step).onChange(async (value: PenaltyStep) => {
+              const steps = [...this.plugin.settings.escalationLadder];
+              steps[i] = value;
+              this.plugin.settings.escalationLadder = steps;
+              await this.plugin.saveSettings();
+            });
+          });
+      });
+    }
+
+    const scope = this.plugin.settings.sessionScope;
+    new Setting(containerEl)
+      .setName("Session scope")
+      .setDesc(
+        "Which notes a session covers. Words count across every note in scope, and switching between them keeps the session going."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(SCOPE_TYPE_LABELS)
+          .setValue(scope.type)
+          .onChange(async (value: ScopeType) => {
+            this.plugin.settings.sessionScope = { ...scope, type: value };
+            await this.plugin.saveSettings();
+            this.display(); // Show the scope's own setting
+          })
+      );
+
+    if (scope.type === "files") {
+      new Setting(containerEl)
+        .setName("Notes in scope")
+        .setDesc(
+          "One path per line, e.g. Outline.md. The note you start in is always included."
+        )
+        .addTextArea((text) =>
+          text
+            .setPlaceholder("Chapters/Outline.md")
+            .setValue(scope.files.join("\n"))
+            .onChange(async (value) => {
+              this.plugin.settings.sessionScope = {
+                ...this.plugin.settings.sessionScope,
+                files: value
+                  .split("\n")
+                  .map((line) => line.trim())
+                  .filter((line) => line.length > 0),
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    } else if (scope.type === "folder") {
+      new Setting(containerEl)
+        .setName("Folder")
+        .setDesc("Every note in this folder and its subfolders (empty = vault)")
+        .addText((text) =>
+          text
+            .setPlaceholder("Chapters")
+            .setValue(scope.folder)
+            .onChange(async (value) => {
+              this.plugin.settings.sessionScope = {
+                ...this.plugin.settings.sessionScope,
+                folder: value.trim(),
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    } else if (scope.type === "tag") {
+      new Setting(containerEl)
+        .setName("Tag")
+        .setDesc("Every note with this tag")
+        .addText((text) =>
+          text
+            .setPlaceholder("#draft")
+            .setValue(scope.tag)
+            .onChange(async (value) => {
+              this.plugin.settings.sessionScope = {
+                ...this.plugin.settings.sessionScope,
+                tag: value.trim(),
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Practice mode")
       .setDesc(
@@ -183,6 +496,530 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Zapped content retention (days)")
+      .setDesc("How long deleted text is kept for recovery (0 = keep forever)")
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(this.plugin.settings.graveyardRetentionDays.toString())
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 3650) {
+              this.plugin.settings.graveyardRetentionDays = num;
+              this.plugin.graveyard = pruneGraveyard(
+                this.plugin.graveyard,
+                num
+              );
+              await this.plugin.saveSettings();
+            }
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Browse").onClick(() => {
+          new GraveyardModal(this.app, this.plugin).open();
+        })
+      );
+
+    containerEl.createEl("h2", { text: "Focus Handling" });
+
+    const focusSettings: { reason: AwayReason; name: string; desc: string }[] =
+      [
+        {
+          reason: "window",
+          name: "Switching away from Obsidian",
+          desc: "When the Obsidian window loses focus",
+        },
+        {
+          reason: "modal",
+          name: "Opening a dialog",
+          desc: "When the command palette, a search or any other dialog is open",
+        },
+        {
+          reason: "pane",
+          name: "Switching to a sidebar pane",
+          desc: "When a non-note pane such as search, the file explorer or the graph is active",
+        },
+      ];
+    for (const { reason, name, desc } of focusSettings) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(FOCUS_POLICY_LABELS)
+            .setValue(this.plugin.settings.focusPolicies[reason])
+            .onChange(async (value: FocusPolicy) => {
+              this.plugin.settings.focusPolicies = {
+                ...this.plugin.settings.focusPolicies,
+                [reason]: value,
+              };
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Pause tokens per session")
+      .setDesc(
+        "How many times a session can pause. Once they're used up, time away keeps counting (0 = unlimited)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("3")
+          .setValue(this.plugin.settings.pauseTokens.toString())
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0 && num <= 100) {
+              this.plugin.settings.pauseTokens = num;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    containerEl.createEl("h2", { text: "Word Counting" });
+
+    new Setting(containerEl)
+      .setName("Count words by")
+      .setDesc(
+        "How words are counted for goals, the status bar and stats. Use segmentation or CJK characters for languages written without spaces. Changes apply from the next session."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(WORD_COUNT_METHOD_LABELS)
+          .setValue(this.plugin.settings.wordCountMethod)
+          .onChange(async (value: WordCountMethod) => {
+            this.plugin.settings.wordCountMethod = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Exclude Markdown")
+      .setDesc(
+        "Only count prose: leave out frontmatter, code blocks, comments, link URLs and markers like list bullets"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.excludeMarkdown)
+          .onChange(async (value) => {
+            this.plugin.settings.excludeMarkdown = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Hyphenated words count as one")
+      .setDesc(
+        'Count "well-known" as one word. Em and en dashes always separate words.'
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.hyphenatedWordsAsOne)
+          .onChange(async (value) => {
+            this.plugin.settings.hyphenatedWordsAsOne = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("h2", { text: "Activity" });
+
+    new Setting(containerEl)
+      .setName("Counts as activity")
+      .setDesc(
+        "Besides typing, what keeps the idle timer from running out. A revision budget lets you delete and move the cursor for a limited time each session."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(ACTIVITY_POLICY_LABELS)
+          .setValue(this.plugin.settings.activityPolicy)
+          .onChange(async (value: ActivityPolicy) => {
+            this.plugin.settings.activityPolicy = value;
+            await this.plugin.saveSettings();
+            this.display(); // Show or hide the revision budget
+          })
+      );
+
+    if (this.plugin.settings.activityPolicy === "revision-budget") {
+      new Setting(containerEl)
+        .setName("Revision budget")
+        .setDesc(
+          "Seconds of idle time per session that deleting and moving the cursor can cover"
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("60")
+            .setValue(this.plugin.settings.revisionBudgetSeconds.toString())
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (!isNaN(num) && num > 0 && num <= 3600) {
+                this.plugin.settings.revisionBudgetSeconds = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Pasted text counts toward goals")
+      .setDesc(
+        "Count words that are pasted, dropped, or inserted by autocomplete, templates or undo toward word goals"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.pasteCountsTowardGoal)
+          .onChange(async (value) => {
+            this.plugin.settings.pasteCountsTowardGoal = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Pasting resets the idle timer")
+      .setDesc(
+        "Treat pasted or inserted text as activity. Holding down a key never does."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.pasteResetsTimer)
+          .onChange(async (value) => {
+            this.plugin.settings.pasteResetsTimer = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("h2", { text: "Targets & Streaks" });
+
+    new Setting(containerEl)
+      .setName("Daily word target")
+      .setDesc(
+        "Words to write each day to keep your streak going (0 = any completed session counts)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(this.plugin.settings.dailyWordTarget.toString())
+          .onChange(async (value) => {
+            const num = parseInt(value) || 0;
+            if (num >= 0 && num <= 100000) {
+              this.plugin.settings.dailyWordTarget = num;
+              await this.saveStreakSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Weekly word target")
+      .setDesc("Words to write each week, Monday to Sunday (0 = disabled)")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(this.plugin.settings.weeklyWordTarget.toString())
+          .onChange(async (value) => {
+            const num = parseInt(value) || 0;
+            if (num >= 0 && num <= 1000000) {
+              this.plugin.settings.weeklyWordTarget = num;
+              await this.saveStreakSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Day starts at")
+      .setDesc(
+        "Hour a new writing day begins. Set it to e.g. 4 so sessions after midnight count for the day before."
+      )
+      .addDropdown((dropdown) => {
+        for (let hour = 0; hour < 24; hour++) {
+          dropdown.addOption(hour.toString(), `${hour}:00`);
+        }
+        dropdown
+          .setValue(this.plugin.settings.dayRolloverHour.toString())
+          .onChange(async (value) => {
+            this.plugin.settings.dayRolloverHour = parseInt(value);
+            await this.saveStreakSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Time zone")
+      .setDesc(
+        "Time zone used to decide which day a session belongs to, e.g. Europe/Berlin (empty = system time zone)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(Intl.DateTimeFormat().resolvedOptions().timeZone)
+          .setValue(this.plugin.settings.timeZone)
+          .onChange(async (value) => {
+            const timeZone = value.trim();
+            if (isValidTimeZone(timeZone)) {
+              this.plugin.settings.timeZone = timeZone;
+              await this.saveStreakSettings();
+            }
+          })
+      );
+
+    containerEl.createEl("h2", { text: "New Notes" });
+
+    new Setting(containerEl)
+      .setName("Folder")
+      .setDesc(
+        'Where "Start Zap session in new note" creates notes (empty = vault root)'
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Zap/Sprints")
+          .setValue(this.plugin.settings.scratchFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.scratchFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Note name")
+      .setDesc("Date format for the note's name, e.g. YYYY-MM-DD HHmm")
+      .addMomentFormat((format) =>
+        format
+          .setDefaultFormat(DEFAULT_SETTINGS.scratchNamePattern)
+          .setValue(this.plugin.settings.scratchNamePattern)
+          .onChange(async (value) => {
+            this.plugin.settings.scratchNamePattern = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Template")
+      .setDesc(
+        "Note to copy into each new note, with {{date}}, {{time}} and {{title}} filled in (empty = none)"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates/Sprint.md")
+          .setValue(this.plugin.settings.scratchTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.scratchTemplate = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Frontmatter")
+      .setDesc(
+        "YAML to add as frontmatter, with {{date}}, {{time}} and {{title}} filled in (empty = none)"
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("created: {{date}}\ntags: [sprint]")
+          .setValue(this.plugin.settings.scratchFrontmatter)
+          .onChange(async (value) => {
+            this.plugin.settings.scratchFrontmatter = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Leftover notes")
+      .setDesc(
+        "What to do with a note Zap created (for a new note or a prompt) when its session fails or is cancelled and nothing was kept"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(SCRATCH_CLEANUP_LABELS)
+          .setValue(this.plugin.settings.scratchCleanup)
+          .onChange(async (value: ScratchCleanup) => {
+            this.plugin.settings.scratchCleanup = value;
+            await this.plugin.saveSettings();
+            this.display(); // Show or hide the archive folder
+          })
+      );
+
+    if (this.plugin.settings.scratchCleanup === "archive") {
+      new Setting(containerEl)
+        .setName("Archive folder")
+        .setDesc("Where leftover notes are moved")
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SETTINGS.scratchArchiveFolder)
+            .setValue(this.plugin.settings.scratchArchiveFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.scratchArchiveFolder =
+                value.trim() || DEFAULT_SETTINGS.scratchArchiveFolder;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    containerEl.createEl("h2", { text: "Writing Prompts" });
+
+    new Setting(containerEl)
+      .setName("Use built-in prompts")
+      .setDesc("Include the prompts that come with Zap")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.useBuiltInPrompts)
+          .onChange(async (value) => {
+            this.plugin.settings.useBuiltInPrompts = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Your prompts")
+      .setDesc(
+        "A note or folder with your own prompts, one per line. List markers, headings and frontmatter are ignored."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Prompts.md")
+          .setValue(this.plugin.settings.promptSource)
+          .onChange(async (value) => {
+            this.plugin.settings.promptSource = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Prompt note name")
+      .setDesc(
+        "Path of the note created for a prompt, without extension. Placeholders: {{date}}, {{time}}, {{prompt}}"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.promptNoteTemplate)
+          .setValue(this.plugin.settings.promptNoteTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.promptNoteTemplate =
+              value.trim() || DEFAULT_SETTINGS.promptNoteTemplate;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Prompt style")
+      .setDesc("How the prompt is written at the top of the new note")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(PROMPT_STYLE_LABELS)
+          .setValue(this.plugin.settings.promptStyle)
+          .onChange(async (value: PromptStyle) => {
+            this.plugin.settings.promptStyle = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("h2", { text: "Daily Notes & Frontmatter" });
+
+    new Setting(containerEl)
+      .setName("Add summary to daily note")
+      .setDesc(
+        "After a completed session, append a summary line to today's daily note. Uses the core Daily notes plugin's folder, date format and template."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.dailyNoteSummary)
+          .onChange(async (value) => {
+            this.plugin.settings.dailyNoteSummary = value;
+            await this.plugin.saveSettings();
+            this.display(); // Show or hide the template
+          })
+      );
+
+    if (this.plugin.settings.dailyNoteSummary) {
+      new Setting(containerEl)
+        .setName("Summary template")
+        .setDesc(
+          `Placeholders: ${SUMMARY_PLACEHOLDERS.map((p) => `{{${p}}}`).join(
+            ", "
+          )}`
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_SUMMARY_TEMPLATE)
+            .setValue(this.plugin.settings.dailyNoteTemplate)
+            .onChange(async (value) => {
+              this.plugin.settings.dailyNoteTemplate =
+                value.trim() || DEFAULT_SUMMARY_TEMPLATE;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Update note frontmatter")
+      .setDesc(
+        "After a completed session, add it to zap_sessions and zap_words in the note's frontmatter and set zap_last"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.updateFrontmatter)
+          .onChange(async (value) => {
+            this.plugin.settings.updateFrontmatter = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("h2", { text: "Session Presets" });
+
+    for (const preset of this.plugin.settings.presets) {
+      const goal =
+        preset.wordCountGoal !== null
+          ? `${preset.wordCountGoal} words`
+          : `${preset.durationMinutes} min`;
+      new Setting(containerEl)
+        .setName(preset.name)
+        .setDesc(
+          `${goal}, ${preset.penaltyType} penalty, ${
+            preset.idleTimeoutSeconds
+          }s idle, practice ${preset.practiceMode ? "on" : "off"}`
+        )
+        .addButton((btn) =>
+          btn.setButtonText("Edit").onClick(() => {
+            new PresetModal(this.app, preset, async (updated) => {
+              this.plugin.settings.presets = this.plugin.settings.presets.map(
+                (p) => (p.id === updated.id ? updated : p)
+              );
+              await this.savePresets();
+            }).open();
+          })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText("Delete")
+            .setWarning()
+            .onClick(async () => {
+              this.plugin.settings.presets =
+                this.plugin.settings.presets.filter((p) => p.id !== preset.id);
+              await this.savePresets();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Add preset")
+      .setDesc("Named session configurations, each with its own start command")
+      .addButton((btn) =>
+        btn.setButtonText("Add Preset").onClick(() => {
+          const preset: SessionPreset = {
+            id: Date.now().toString(36),
+            name: "",
+            durationMinutes: this.plugin.settings.sessionDurationMinutes,
+            wordCountGoal: null,
+            penaltyType: this.plugin.settings.penaltyType,
+            idleTimeoutSeconds: this.plugin.settings.idleTimeoutSeconds,
+            practiceMode: this.plugin.settings.practiceMode,
+          };
+          new PresetModal(this.app, preset, async (created) => {
+            this.plugin.settings.presets = [
+              ...this.plugin.settings.presets,
+              created,
+            ];
+            await this.savePresets();
+          }).open();
+        })
+      );
+
     containerEl.createEl("h2", { text: "Statistics" });
 
     // Basic stats display
@@ -198,7 +1035,9 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
 
     const totalSessions = sessions.length;
     const completedSessions = sessions.filter((s) => s.completed).length;
-    const totalWords = sessions.reduce((sum, s) => sum + s.wordsWritten, 0);
+    const totalWords = sessions
+      .filter((s) => !s.legacy)
+      .reduce((sum, s) => sum + s.netWords, 0);
     const totalTime = sessions.reduce((sum, s) => sum + s.durationSeconds, 0);
 
     const statsContainer = containerEl.createDiv({
@@ -232,16 +1071,29 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
       );
 
       if (todaySessions.length > 0) {
-        const todayWords = todaySessions.reduce(
-          (sum, s) => sum + s.wordsWritten,
-          0
-        );
+        const todayWords = todaySessions
+          .filter((s) => !s.legacy)
+          .reduce((sum, s) => sum + s.netWords, 0);
         this.createStatCard(
           statsGrid,
           "Today",
           `${todaySessions.length} sessions, ${todayWords} words`
         );
       }
+
+      const streaks = computeStreaks(sessions, this.plugin.settings);
+      this.createStatCard(
+        statsGrid,
+        "Streak",
+        `${streaks.current} days (best ${streaks.longest})`
+      );
+      if (this.plugin.settings.weeklyWordTarget > 0) {
+        this.createStatCard(
+          statsGrid,
+          "This Week",
+          `${streaks.weekWords}/${this.plugin.settings.weeklyWordTarget} words`
+        );
+      }
     } else {
       statsContainer.createEl("p", {
         text: "No sessions yet. Start writing dangerously!",
@@ -249,6 +1101,38 @@ export class DangerousWritingSettingTab extends PluginSettingTab {
       });
     }
 
+    new Setting(containerEl)
+      .setName("Export path")
+      .setDesc(
+        "Default vault path for session history exports, without the .csv or .json extension"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.exportPath)
+          .setValue(this.plugin.settings.exportPath)
+          .onChange(async (value) => {
+            this.plugin.settings.exportPath =
+              value.trim() || DEFAULT_SETTINGS.exportPath;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Export or import history")
+      .setDesc(
+        "Export sessions to CSV or JSON, or merge in sessions exported from another device or vault. Sessions already recorded are skipped."
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Export").onClick(() => {
+          this.plugin.openExportModal("csv");
+        })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Import").onClick(() => {
+          this.plugin.openImportModal();
+        })
+      );
+
     new Setting(containerEl)
       .setName("View all statistics")
       .setDesc("See comprehensive writing history and detailed stats")
@@ -1,20 +1,147 @@
-import { ItemView, WorkspaceLeaf } from "obsidian";
+import { DropdownComponent, ItemView, WorkspaceLeaf, setIcon } from "obsidian";
+import DangerousWritingPlugin from "./main";
+import {
+  renderCompletionRate,
+  renderHeatmap,
+  renderTimeOfDay,
+  renderWordsTrend,
+} from "./charts";
+import { computeStreaks } from "./streaks";
+import { DeleteSessionModal, SessionConfig, SessionNoteModal } from "./modal";
+import { GOAL_MODE_LABELS, GoalMode } from "./goals";
+import {
+  DEFAULT_HISTORY_FILTER,
+  DEFAULT_HISTORY_SORT,
+  HISTORY_STATUS_LABELS,
+  HistoryFilter,
+  HistorySort,
+  HistorySortKey,
+  HistoryStatus,
+  filterSessions,
+  sessionFiles,
+  sortSessions,
+} from "./history";
+import { isSoftPenalty } from "./penalty";
 
 export const VIEW_TYPE_STATS = "dangerous-writing-stats";
 
+/**
+ * What ended a recorded session: one of the goal conditions, running out of
+ * time on a "words within time" goal, the idle penalty, or a crash.
+ */
+export type SessionEndReason =
+  | "time-goal"
+  | "word-goal"
+  | "time-and-words"
+  | "time-expired"
+  | "idle"
+  | "abandoned";
+
 export interface SessionRecord {
+  timestamp: number;
+  durationSeconds: number;
+  completed: boolean;
+  // Word counts of the whole note at the start and end of the session
+  wordsAtStart: number;
+  wordsAtEnd: number;
+  // Words added by the session itself (never negative)
+  netWords: number;
+  // Words removed by the penalty, 0 for completed sessions
+  wordsDeleted: number;
+  charactersTyped: number;
+  // Pasted or inserted (autocomplete, templates) rather than typed
+  charactersPasted: number;
+  wordsPasted: number;
+  // The note the session started in, and any other notes in its scope that
+  // were written in. Missing for sessions recorded before they were tracked.
+  filePath?: string;
+  otherFiles?: string[];
+  // Idle lapses penalized; more than one only with escalating penalties
+  strikes?: number;
+  // Writing prompt the session was started with
+  prompt?: string;
+  // The writer's own note, added from the history table
+  note?: string;
+  // Effective configuration the session ran with
+  config?: SessionConfig;
+  endReason?: SessionEndReason;
+  // Interrupted by a crash or reload and recovered on the next load
+  abandoned?: boolean;
+  // Recorded before net word tracking; only `legacyWordCount` is meaningful
+  legacy?: boolean;
+  // Total words in the note, as stored by older versions
+  legacyWordCount?: number;
+}
+
+export function describeEndReason(reason: SessionEndReason): string {
+  switch (reason) {
+    case "time-goal":
+      return "Time goal reached";
+    case "word-goal":
+      return "Word goal reached";
+    case "time-and-words":
+      return "Time and word goals reached";
+    case "time-expired":
+      return "Time ran out before the word goal";
+    case "idle":
+      return "Stopped typing";
+    case "abandoned":
+      return "Interrupted";
+  }
+}
+
+interface LegacySessionRecord {
   timestamp: number;
   durationSeconds: number;
   wordsWritten: number;
   completed: boolean;
 }
 
+/**
+ * Convert sessions saved by older versions, which stored the total words in
+ * the note as `wordsWritten`. Those records are kept but flagged as legacy so
+ * they don't inflate net word totals.
+ */
+export function migrateSessions(
+  sessions: (SessionRecord | LegacySessionRecord)[]
+): SessionRecord[] {
+  return sessions.map((session) => {
+    if ("netWords" in session) {
+      return session;
+    }
+    return {
+      timestamp: session.timestamp,
+      durationSeconds: session.durationSeconds,
+      completed: session.completed,
+      wordsAtStart: 0,
+      wordsAtEnd: 0,
+      netWords: 0,
+      wordsDeleted: 0,
+      charactersTyped: 0,
+      charactersPasted: 0,
+      wordsPasted: 0,
+      legacy: true,
+      legacyWordCount: session.wordsWritten,
+    };
+  });
+}
+
+// Sessions per page of the history table
+const HISTORY_PAGE_SIZE = 20;
+
 export class StatsView extends ItemView {
+  private plugin: DangerousWritingPlugin;
   private sessions: SessionRecord[];
+  // History table state, kept across re-renders
+  private historyEl: HTMLElement | null = null;
+  private historyFilter: HistoryFilter = DEFAULT_HISTORY_FILTER;
+  private historySort: HistorySort = DEFAULT_HISTORY_SORT;
+  private historyPage = 0;
 
-  constructor(leaf: WorkspaceLeaf, sessions: SessionRecord[]) {
+  constructor(leaf: WorkspaceLeaf, plugin: DangerousWritingPlugin) {
     super(leaf);
-    this.sessions = sessions;
+    this.plugin = plugin;
+    this.sessions = plugin.sessions;
   }
 
   getViewType(): string {
@@ -44,6 +171,8 @@ export class StatsView extends ItemView {
 
     container.createEl("h2", { text: "Zap Statistics" });
 
+    this.renderStreaks(container);
+
     // Time period filters
     const now = Date.now();
     const day = 24 * 60 * 60 * 1000;
@@ -64,8 +193,16 @@ export class StatsView extends ItemView {
       this.renderPeriodStats(container, period.name, periodSessions);
     }
 
-    // Recent sessions list
-    container.createEl("h3", { text: "Recent Sessions" });
+    // Charts
+    container.createEl("h3", { text: "Trends" });
+    const charts = container.createEl("div", { cls: "dw-charts" });
+    renderHeatmap(charts, this.sessions);
+    renderWordsTrend(charts, this.sessions);
+    renderCompletionRate(charts, this.sessions);
+    renderTimeOfDay(charts, this.sessions);
+
+    // Session history
+    container.createEl("h3", { text: "Session History" });
 
     if (this.sessions.length === 0) {
       container.createEl("p", {
@@ -73,36 +210,295 @@ export class StatsView extends ItemView {
         cls: "dangerous-writing-stats-empty",
       });
     } else {
-      const recentSessions = this.sessions.slice(-10).reverse();
-      const list = container.createEl("div", {
-        cls: "dangerous-writing-sessions-list",
+      this.renderHistoryFilters(container);
+      this.historyEl = container.createEl("div", { cls: "dw-history" });
+      this.renderHistory();
+    }
+  }
+
+  private renderHistoryFilters(container: Element) {
+    const bar = container.createEl("div", { cls: "dw-history-filters" });
+    const update = (change: Partial<HistoryFilter>) => {
+      this.historyFilter = { ...this.historyFilter, ...change };
+      this.historyPage = 0;
+      this.renderHistory();
+    };
+
+    const from = bar.createEl("input", {
+      type: "date",
+      cls: "dw-history-date",
+      attr: { "aria-label": "From" },
+    });
+    from.value = this.historyFilter.from;
+    from.onchange = () => update({ from: from.value });
+    const to = bar.createEl("input", {
+      type: "date",
+      cls: "dw-history-date",
+      attr: { "aria-label": "To" },
+    });
+    to.value = this.historyFilter.to;
+    to.onchange = () => update({ to: to.value });
+
+    new DropdownComponent(bar)
+      .addOptions(HISTORY_STATUS_LABELS)
+      .setValue(this.historyFilter.status)
+      .onChange((value: HistoryStatus) => update({ status: value }));
+
+    const files = Array.from(
+      new Set(this.sessions.flatMap((s) => sessionFiles(s)))
+    ).sort();
+    const fileDropdown = new DropdownComponent(bar).addOption("", "All notes");
+    for (const file of files) {
+      fileDropdown.addOption(file, file);
+    }
+    fileDropdown
+      .setValue(this.historyFilter.file)
+      .onChange((value) => update({ file: value }));
+
+    new DropdownComponent(bar)
+      .addOption("all", "All goals")
+      .addOptions(GOAL_MODE_LABELS)
+      .setValue(this.historyFilter.goalMode)
+      .onChange((value: GoalMode | "all") => update({ goalMode: value }));
+  }
+
+  private renderHistory() {
+    const container = this.historyEl;
+    if (!container) {
+      return;
+    }
+    container.empty();
+
+    const sessions = sortSessions(
+      filterSessions(this.sessions, this.historyFilter),
+      this.historySort
+    );
+    if (sessions.length === 0) {
+      container.createEl("p", {
+        text: "No sessions match these filters.",
+        cls: "dangerous-writing-stats-empty",
       });
+      return;
+    }
 
-      for (const session of recentSessions) {
-        const item = list.createEl("div", {
-          cls: "dangerous-writing-session-item",
-        });
-        const date = new Date(session.timestamp);
-        const status = session.completed ? "✅" : "❌";
-        const duration = this.formatDuration(session.durationSeconds);
-
-        item.createEl("span", {
-          text: `${status} ${date.toLocaleDateString()} ${date.toLocaleTimeString(
-            [],
-            { hour: "2-digit", minute: "2-digit" }
-          )}`,
-          cls: "session-date",
-        });
-        item.createEl("span", {
-          text: `${session.wordsWritten} words`,
-          cls: "session-words",
-        });
-        item.createEl("span", {
-          text: duration,
-          cls: "session-duration",
-        });
+    const pageCount = Math.ceil(sessions.length / HISTORY_PAGE_SIZE);
+    this.historyPage = Math.min(this.historyPage, pageCount - 1);
+    const page = sessions.slice(
+      this.historyPage * HISTORY_PAGE_SIZE,
+      (this.historyPage + 1) * HISTORY_PAGE_SIZE
+    );
+
+    const table = container.createEl("table", { cls: "dw-history-table" });
+    const header = table.createEl("thead").createEl("tr");
+    const sortableHeader = (label: string, key: HistorySortKey) => {
+      const sorted = this.historySort.key === key;
+      const th = header.createEl("th", {
+        text: sorted
+          ? `${label} ${this.historySort.descending ? "▼" : "▲"}`
+          : label,
+        cls: "dw-history-sortable",
+      });
+      th.onclick = () => {
+        this.historySort = {
+          key,
+          descending: sorted ? !this.historySort.descending : true,
+        };
+        this.renderHistory();
+      };
+    };
+    sortableHeader("Date", "date");
+    header.createEl("th", { text: "Note" });
+    header.createEl("th", { text: "Goal" });
+    sortableHeader("Words", "words");
+    sortableHeader("Duration", "duration");
+    header.createEl("th", { text: "Strikes" });
+    header.createEl("th");
+
+    const body = table.createEl("tbody");
+    for (const session of page) {
+      this.renderHistoryRow(body, session);
+    }
+
+    const pager = container.createEl("div", { cls: "dw-history-pager" });
+    const prevBtn = pager.createEl("button", {
+      text: "Previous",
+      cls: "dw-btn",
+    });
+    prevBtn.disabled = this.historyPage === 0;
+    prevBtn.onclick = () => {
+      this.historyPage--;
+      this.renderHistory();
+    };
+    pager.createEl("span", {
+      text: `Page ${this.historyPage + 1} of ${pageCount} (${
+        sessions.length
+      } session${sessions.length === 1 ? "" : "s"})`,
+    });
+    const nextBtn = pager.createEl("button", { text: "Next", cls: "dw-btn" });
+    nextBtn.disabled = this.historyPage >= pageCount - 1;
+    nextBtn.onclick = () => {
+      this.historyPage++;
+      this.renderHistory();
+    };
+  }
+
+  private renderHistoryRow(body: HTMLElement, session: SessionRecord) {
+    const row = body.createEl("tr");
+    const date = new Date(session.timestamp);
+    const status = session.completed ? "✅" : session.abandoned ? "⚠️" : "❌";
+
+    const dateCell = row.createEl("td", {
+      text: `${status} ${date.toLocaleDateString()} ${date.toLocaleTimeString(
+        [],
+        { hour: "2-digit", minute: "2-digit" }
+      )}`,
+    });
+    if (session.endReason) {
+      dateCell.setAttr("title", describeEndReason(session.endReason));
+    }
+
+    const files = sessionFiles(session);
+    const noteCell = row.createEl("td", { cls: "dw-history-file" });
+    noteCell.createEl("div", {
+      text: files.length > 0 ? files[0].replace(/^.*\//, "") : "—",
+      attr: {
+        title: [
+          ...files,
+          ...(session.prompt ? [`Prompt: ${session.prompt}`] : []),
+        ].join("\n"),
+      },
+    });
+    if (session.note) {
+      noteCell.createEl("div", {
+        text: session.note,
+        cls: "dw-history-annotation",
+      });
+    }
+
+    row.createEl("td", {
+      text: session.config ? GOAL_MODE_LABELS[session.config.goalMode] : "—",
+    });
+
+    const words = row.createEl("td", {
+      text: session.legacy
+        ? `${session.legacyWordCount ?? 0} in note`
+        : `+${session.netWords}`,
+      cls: "session-words",
+    });
+    if (session.legacy) {
+      words.setAttr(
+        "title",
+        "Legacy session: recorded the total words in the note, not words written"
+      );
+    } else {
+      const details: string[] = [];
+      if (session.wordsDeleted > 0) {
+        details.push(`${session.wordsDeleted} words zapped`);
+      }
+      if (session.wordsPasted) {
+        details.push(`${session.wordsPasted} words pasted`);
+      }
+      if (details.length > 0) {
+        words.setAttr("title", details.join(", "));
       }
     }
+
+    row.createEl("td", {
+      text: this.formatDuration(session.durationSeconds),
+      cls: "session-duration",
+    });
+
+    const strikes = row.createEl("td", { cls: "session-strikes" });
+    const penaltyType = session.config?.penaltyType;
+    if (penaltyType === "escalating") {
+      strikes.setText(
+        `⚡ ${session.strikes ?? 0}/${
+          session.config.escalationLadder?.length ?? 0
+        }`
+      );
+      strikes.setAttr("title", "Strikes used");
+    } else if (penaltyType && isSoftPenalty(penaltyType)) {
+      strikes.setText(`⚡ ${session.strikes ?? 0}`);
+      strikes.setAttr("title", `Non-destructive penalties (${penaltyType})`);
+    }
+
+    const actions = row.createEl("td", { cls: "dw-history-actions" });
+    const noteBtn = actions.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Add note" },
+    });
+    setIcon(noteBtn, "pencil");
+    noteBtn.onclick = () => {
+      new SessionNoteModal(this.app, session.note ?? "", (note) => {
+        this.plugin.setSessions(
+          this.sessions.map((s) =>
+            s === session ? { ...session, note: note || undefined } : s
+          )
+        );
+      }).open();
+    };
+    const deleteBtn = actions.createEl("button", {
+      cls: "clickable-icon",
+      attr: { "aria-label": "Delete session" },
+    });
+    setIcon(deleteBtn, "trash");
+    deleteBtn.onclick = () => {
+      new DeleteSessionModal(
+        this.app,
+        `${date.toLocaleString()} (${session.netWords} words)`,
+        () => {
+          this.plugin.setSessions(this.sessions.filter((s) => s !== session));
+        }
+      ).open();
+    };
+  }
+
+  private renderStreaks(container: Element) {
+    const options = this.plugin.settings;
+    const streaks = computeStreaks(this.sessions, options);
+    const section = container.createEl("div", {
+      cls: "dangerous-writing-stats-period",
+    });
+    section.createEl("h3", { text: "Streaks & Targets" });
+    const statsGrid = section.createEl("div", {
+      cls: "dangerous-writing-stats-grid",
+    });
+
+    this.createStatCard(
+      statsGrid,
+      "Current Streak",
+      `${streaks.current} day${streaks.current === 1 ? "" : "s"}`
+    );
+    this.createStatCard(
+      statsGrid,
+      "Longest Streak",
+      `${streaks.longest} day${streaks.longest === 1 ? "" : "s"}`
+    );
+    this.createStatCard(
+      statsGrid,
+      "Today",
+      options.dailyWordTarget > 0
+        ? `${streaks.todayWords}/${options.dailyWordTarget}${
+            streaks.todayMet ? " ✅" : ""
+          }`
+        : streaks.todayWords.toLocaleString()
+    );
+    this.createStatCard(
+      statsGrid,
+      "This Week",
+      options.weeklyWordTarget > 0
+        ? `${streaks.weekWords}/${options.weeklyWordTarget}${
+            streaks.weekMet ? " ✅" : ""
+          }`
+        : streaks.weekWords.toLocaleString()
+    );
+
+    if (options.dailyWordTarget === 0) {
+      section.createEl("p", {
+        text: "Without a daily word target, any day with a completed session counts toward your streak.",
+        cls: "dangerous-writing-stats-note",
+      });
+    }
   }
 
   private renderPeriodStats(
@@ -117,8 +513,16 @@ export class StatsView extends ItemView {
 
     const totalSessions = sessions.length;
     const completedSessions = sessions.filter((s) => s.completed).length;
-    const totalWords = sessions.reduce((sum, s) => sum + s.wordsWritten, 0);
+    // Legacy sessions only know the note's total, so they're left out of
+    // word totals and averages
+    const netSessions = sessions.filter((s) => !s.legacy);
+    const totalWords = netSessions.reduce((sum, s) => sum + s.netWords, 0);
+    const totalDeleted = netSessions.reduce(
+      (sum, s) => sum + s.wordsDeleted,
+      0
+    );
     const totalTime = sessions.reduce((sum, s) => sum + s.durationSeconds, 0);
+    const totalStrikes = sessions.reduce((sum, s) => sum + (s.strikes ?? 0), 0);
 
     const statsGrid = section.createEl("div", {
       cls: "dangerous-writing-stats-grid",
@@ -142,12 +546,36 @@ export class StatsView extends ItemView {
     );
 
     if (totalSessions > 0) {
-      const avgWords = Math.round(totalWords / totalSessions);
       const completionRate = Math.round(
         (completedSessions / totalSessions) * 100
       );
-      this.createStatCard(statsGrid, "Avg Words/Session", avgWords.toString());
+      if (netSessions.length > 0) {
+        const avgWords = Math.round(totalWords / netSessions.length);
+        this.createStatCard(
+          statsGrid,
+          "Avg Words/Session",
+          avgWords.toString()
+        );
+      }
       this.createStatCard(statsGrid, "Completion Rate", `${completionRate}%`);
+      this.createStatCard(
+        statsGrid,
+        "Words Zapped",
+        totalDeleted.toLocaleString()
+      );
+      if (totalStrikes > 0) {
+        this.createStatCard(statsGrid, "Strikes", totalStrikes.toString());
+      }
+    }
+
+    const legacyCount = totalSessions - netSessions.length;
+    if (legacyCount > 0) {
+      section.createEl("p", {
+        text: `${legacyCount} legacy session${
+          legacyCount === 1 ? "" : "s"
+        } excluded from word totals.`,
+        cls: "dangerous-writing-stats-note",
+      });
     }
   }
 
@@ -0,0 +1,133 @@
+import type { SessionRecord } from "./stats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Settings that decide which calendar day a session belongs to and what
+ * counts as a productive day or week.
+ */
+export interface StreakOptions {
+  // Words per day for the day to count toward a streak (0 = any completed
+  // session counts)
+  dailyWordTarget: number;
+  // 0 disables the weekly target
+  weeklyWordTarget: number;
+  // Hour the writing day starts, so a 1am session can count for the day
+  // before
+  dayRolloverHour: number;
+  // IANA time zone such as "Europe/Berlin"; empty uses the system zone
+  timeZone: string;
+}
+
+export interface StreakSummary {
+  // Consecutive days meeting the target, up to today or yesterday
+  current: number;
+  longest: number;
+  todayWords: number;
+  weekWords: number;
+  todayMet: boolean;
+  weekMet: boolean;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone === "") {
+    return true;
+  }
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Writing day of a timestamp as a count of days since 1970-01-01, in the
+ * configured time zone and shifted by the rollover hour.
+ */
+export function writingDay(time: number, options: StreakOptions): number {
+  const timeZone =
+    options.timeZone && isValidTimeZone(options.timeZone)
+      ? options.timeZone
+      : undefined;
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(time - options.dayRolloverHour * HOUR_MS);
+  const part = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? "0");
+  return Math.round(
+    Date.UTC(part("year"), part("month") - 1, part("day")) / DAY_MS
+  );
+}
+
+// Weeks start on Monday; day 0 (1970-01-01) was a Thursday
+function weekOf(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+export function computeStreaks(
+  sessions: SessionRecord[],
+  options: StreakOptions,
+  now: number = Date.now()
+): StreakSummary {
+  const wordsByDay = new Map<number, number>();
+  const completedDays = new Set<number>();
+  for (const session of sessions) {
+    const day = writingDay(session.timestamp, options);
+    if (!session.legacy) {
+      wordsByDay.set(day, (wordsByDay.get(day) ?? 0) + session.netWords);
+    }
+    if (session.completed) {
+      completedDays.add(day);
+    }
+  }
+
+  const meetsTarget = (day: number) =>
+    options.dailyWordTarget > 0
+      ? (wordsByDay.get(day) ?? 0) >= options.dailyWordTarget
+      : completedDays.has(day);
+
+  const today = writingDay(now, options);
+  const productiveDays = Array.from(
+    new Set([...wordsByDay.keys(), ...completedDays])
+  )
+    .filter(meetsTarget)
+    .sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  productiveDays.forEach((day, i) => {
+    run = i > 0 && productiveDays[i - 1] === day - 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // Today doesn't break the streak until it's over
+  let current = 0;
+  let day = meetsTarget(today) ? today : today - 1;
+  while (meetsTarget(day)) {
+    current++;
+    day--;
+  }
+
+  const week = weekOf(today);
+  let weekWords = 0;
+  wordsByDay.forEach((words, d) => {
+    if (weekOf(d) === week) {
+      weekWords += words;
+    }
+  });
+
+  return {
+    current,
+    longest,
+    todayWords: wordsByDay.get(today) ?? 0,
+    weekWords,
+    todayMet: meetsTarget(today),
+    weekMet:
+      options.weeklyWordTarget > 0 && weekWords >= options.weeklyWordTarget,
+  };
+}
@@ -0,0 +1,137 @@
+import { App, TFile, moment, normalizePath } from "obsidian";
+import { describeGoal } from "./goals";
+import { fillTemplate } from "./scratch";
+import type { SessionRecord } from "./stats";
+
+export const DEFAULT_SUMMARY_TEMPLATE =
+  "- ⚡ {{words}} words in {{duration}} on {{link}}";
+
+// Placeholders documented in the settings tab
+export const SUMMARY_PLACEHOLDERS = [
+  "words",
+  "zapped",
+  "duration",
+  "goal",
+  "link",
+  "note",
+  "date",
+  "time",
+];
+
+interface DailyNoteOptions {
+  folder?: string;
+  format?: string;
+  template?: string;
+}
+
+// The parts of Obsidian's undocumented core plugin registry used here
+interface InternalPlugins {
+  getPluginById?(
+    id: string
+  ): { enabled: boolean; instance?: { options?: DailyNoteOptions } } | null;
+}
+
+// Settings of the core Daily notes plugin, or null when it's disabled
+function getDailyNoteOptions(app: App): DailyNoteOptions | null {
+  const { internalPlugins } = app as { internalPlugins?: InternalPlugins };
+  const plugin = internalPlugins?.getPluginById?.("daily-notes");
+  return plugin?.enabled ? plugin.instance?.options ?? {} : null;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m` : `${seconds}s`;
+}
+
+/**
+ * Fill in a summary template such as "⚡ {{words}} words in {{duration}} on
+ * {{link}}". Unknown placeholders are left as they are.
+ */
+export function renderSummary(
+  app: App,
+  template: string,
+  record: SessionRecord,
+  file: TFile | null,
+  sourcePath: string
+): string {
+  const values: Record<string, string> = {
+    words: record.netWords.toString(),
+    zapped: record.wordsDeleted.toString(),
+    duration: formatDuration(record.durationSeconds),
+    goal: record.config ? describeGoal(record.config) : "",
+    link: file ? app.fileManager.generateMarkdownLink(file, sourcePath) : "",
+    note: file?.basename ?? "",
+    date: moment(record.timestamp).format("YYYY-MM-DD"),
+    time: moment(record.timestamp).format("HH:mm"),
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+}
+
+/**
+ * Append a line to today's daily note, creating the note from the Daily
+ * notes template if it doesn't exist yet. Returns false when the Daily notes
+ * plugin is disabled.
+ */
+export async function appendToDailyNote(
+  app: App,
+  buildLine: (dailyNotePath: string) => string
+): Promise<boolean> {
+  const options = getDailyNoteOptions(app);
+  if (!options) {
+    return false;
+  }
+  const now = moment();
+  const name = now.format(options.format || "YYYY-MM-DD");
+  const folder = (options.folder ?? "").trim().replace(/\/+$/, "");
+  const path = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+  const line = buildLine(path);
+
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await app.vault.process(existing, (content) =>
+      content === "" || content.endsWith("\n")
+        ? `${content}${line}\n`
+        : `${content}\n${line}\n`
+    );
+    return true;
+  }
+
+  let content = "";
+  const template = options.template
+    ? app.metadataCache.getFirstLinkpathDest(options.template, "")
+    : null;
+  if (template) {
+    content = fillTemplate(await app.vault.read(template), name, now);
+    if (content !== "" && !content.endsWith("\n")) {
+      content += "\n";
+    }
+  }
+  const parent = path.split("/").slice(0, -1).join("/");
+  if (parent && !app.vault.getAbstractFileByPath(parent)) {
+    await app.vault.createFolder(parent);
+  }
+  await app.vault.create(path, `${content}${line}\n`);
+  return true;
+}
+
+/**
+ * Keep running Zap totals in the note's frontmatter.
+ */
+export async function updateSessionFrontmatter(
+  app: App,
+  file: TFile,
+  record: SessionRecord
+) {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    frontmatter.zap_sessions = (Number(frontmatter.zap_sessions) || 0) + 1;
+    frontmatter.zap_words =
+      (Number(frontmatter.zap_words) || 0) + record.netWords;
+    frontmatter.zap_last = moment(record.timestamp).format("YYYY-MM-DD HH:mm");
+  });
+}
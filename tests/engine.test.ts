@@ -0,0 +1,458 @@
+import { startSession } from "./helpers";
+
+describe("idle watchdog", () => {
+  it("zaps the session text once idle for the timeout", () => {
+    const { clock, text, listener, type } = startSession({
+      "a.md": "Before.\n\n",
+    });
+    type("Fresh words here.");
+    clock.advance(4950);
+    expect(listener.results).toHaveLength(0);
+
+    clock.advance(50);
+    expect(listener.results).toHaveLength(1);
+    expect(listener.results[0]).toMatchObject({
+      completed: false,
+      endReason: "idle",
+      netWords: 0,
+      wordsDeleted: 3,
+    });
+    expect(listener.results[0].penalty.zapped[0].text).toContain(
+      "Fresh words here."
+    );
+    expect(text.docs["a.md"]).toBe("Before.\n\n");
+  });
+
+  it("restarts the idle timeout on typing", () => {
+    const { clock, listener, engine, type } = startSession({ "a.md": "" });
+    for (let i = 0; i < 10; i++) {
+      clock.advance(4000);
+      type("word ");
+    }
+    expect(listener.results).toHaveLength(0);
+    expect(engine.isActive()).toBe(true);
+    expect(engine.getCharactersTyped()).toBe(50);
+  });
+
+  it("doesn't treat deleting as activity by default", () => {
+    const { clock, text, listener, engine, type } = startSession({
+      "a.md": "",
+    });
+    type("Some words to start with.");
+    clock.advance(3000);
+    text.docs["a.md"] = text.docs["a.md"].slice(0, -5);
+    engine.handleChange("a.md", text.change("a.md", "deleted"));
+    clock.advance(2000);
+    expect(listener.results[0].endReason).toBe("idle");
+  });
+
+  it("runs a single timer and clears it when the session stops", () => {
+    const { clock, engine, type } = startSession({ "a.md": "" });
+    for (let i = 0; i < 20; i++) {
+      type("x");
+    }
+    expect(clock.timerCount).toBe(1);
+    engine.stop();
+    expect(clock.timerCount).toBe(0);
+    expect(engine.isActive()).toBe(false);
+  });
+});
+
+describe("idle warning", () => {
+  it("rises from 0 at the threshold to 1 at the timeout", () => {
+    const { clock, listener } = startSession(
+      { "a.md": "" },
+      { warningThresholdSeconds: 1, idleTimeoutSeconds: 5 }
+    );
+    clock.advance(950);
+    expect(listener.warnings).toEqual([]);
+
+    clock.advance(2050);
+    const progress = listener.warnings.filter((p) => p !== null);
+    expect(progress[0]).toBe(0);
+    expect(progress[progress.length - 1]).toBeCloseTo(0.5, 2);
+    for (let i = 1; i < progress.length; i++) {
+      expect(progress[i]).toBeGreaterThan(progress[i - 1]);
+    }
+  });
+
+  it("clears when the writer types and only reports changes", () => {
+    const { clock, listener, type } = startSession({ "a.md": "" });
+    clock.advance(3000);
+    type("a");
+    expect(listener.warnings[listener.warnings.length - 1]).toBeNull();
+    const count = listener.warnings.length;
+    clock.advance(1000);
+    expect(listener.warnings).toHaveLength(count);
+  });
+});
+
+describe("goal modes", () => {
+  // Type one word a second until the session ends or time runs out
+  function write(session: ReturnType<typeof startSession>, seconds: number) {
+    for (let i = 0; i < seconds && session.engine.isActive(); i++) {
+      session.type("word ");
+      session.clock.advance(1000);
+    }
+  }
+
+  it("time: completes when the duration has passed", () => {
+    const session = startSession(
+      { "a.md": "" },
+      { goalMode: "time", durationMinutes: 1 }
+    );
+    write(session, 59);
+    expect(session.listener.results).toHaveLength(0);
+    write(session, 2);
+    expect(session.listener.results[0]).toMatchObject({
+      completed: true,
+      endReason: "time-goal",
+      durationSeconds: 60,
+    });
+  });
+
+  it("words: completes on the tick after the goal is reached", () => {
+    const session = startSession(
+      { "a.md": "Existing text here.\n" },
+      { goalMode: "words", wordCountGoal: 5 }
+    );
+    write(session, 4);
+    expect(session.listener.results).toHaveLength(0);
+    write(session, 2);
+    expect(session.listener.results[0]).toMatchObject({
+      completed: true,
+      endReason: "word-goal",
+      wordsAtStart: 3,
+      wordsAtEnd: 8,
+      netWords: 5,
+    });
+  });
+
+  it("words-within-time: completes if the goal comes first", () => {
+    const session = startSession(
+      { "a.md": "" },
+      { goalMode: "words-within-time", wordCountGoal: 10, durationMinutes: 1 }
+    );
+    write(session, 12);
+    expect(session.listener.results[0]).toMatchObject({
+      completed: true,
+      endReason: "word-goal",
+    });
+  });
+
+  it("words-within-time: fails when time runs out first", () => {
+    const session = startSession(
+      { "a.md": "" },
+      { goalMode: "words-within-time", wordCountGoal: 100, durationMinutes: 1 }
+    );
+    write(session, 65);
+    expect(session.listener.results[0]).toMatchObject({
+      completed: false,
+      endReason: "time-expired",
+      netWords: 60,
+    });
+  });
+
+  it("time-and-words: waits for both, in either order", () => {
+    const wordsFirst = startSession(
+      { "a.md": "" },
+      { goalMode: "time-and-words", wordCountGoal: 5, durationMinutes: 1 }
+    );
+    write(wordsFirst, 30);
+    expect(wordsFirst.listener.results).toHaveLength(0);
+    write(wordsFirst, 35);
+    expect(wordsFirst.listener.results[0]).toMatchObject({
+      completed: true,
+      endReason: "time-and-words",
+    });
+
+    const timeFirst = startSession(
+      { "a.md": "" },
+      { goalMode: "time-and-words", wordCountGoal: 100, durationMinutes: 1 }
+    );
+    write(timeFirst, 70);
+    expect(timeFirst.listener.results).toHaveLength(0);
+    expect(timeFirst.engine.getRemainingMs()).toBe(0);
+    write(timeFirst, 35);
+    expect(timeFirst.listener.results[0].endReason).toBe("time-and-words");
+  });
+
+  it("doesn't count pasted words unless the session allows it", () => {
+    const strict = startSession(
+      { "a.md": "" },
+      { goalMode: "words", wordCountGoal: 5 }
+    );
+    strict.type("one two three four five six", "pasted");
+    strict.clock.advance(1000);
+    expect(strict.engine.getWordsWritten()).toBe(0);
+    expect(strict.listener.results).toHaveLength(0);
+
+    const lenient = startSession(
+      { "a.md": "" },
+      { goalMode: "words", wordCountGoal: 5, pasteCountsTowardGoal: true }
+    );
+    lenient.type("one two three four five six", "pasted");
+    lenient.clock.advance(1000);
+    expect(lenient.listener.results[0]).toMatchObject({
+      completed: true,
+      charactersPasted: 27,
+      wordsPasted: 6,
+    });
+  });
+});
+
+describe("penalties", () => {
+  it("climbs the escalation ladder with each strike", () => {
+    const { clock, text, listener, type } = startSession(
+      { "a.md": "" },
+      { penaltyType: "escalating", escalationLadder: ["word", "sentence"] }
+    );
+    type("First sentence here. Second one now");
+    clock.advance(5000);
+    expect(listener.strikes.map((s) => s.penaltyType)).toEqual(["word"]);
+    expect(text.docs["a.md"]).toBe("First sentence here. Second one");
+
+    clock.advance(5000);
+    expect(listener.results[0]).toMatchObject({
+      endReason: "idle",
+      strikes: 2,
+    });
+    expect(listener.results[0].penalty.penaltyType).toBe("sentence");
+    expect(text.docs["a.md"]).toBe("First sentence here.");
+  });
+
+  it("never removes fenced code written during the session", () => {
+    const { clock, text, type } = startSession({ "a.md": "" });
+    type("Prose before.\n\n```\ncode();\n```\n\nProse after.");
+    clock.advance(5000);
+    expect(text.docs["a.md"].trim()).toBe("```\ncode();\n```");
+  });
+
+  it("ends with no penalty when nothing was written", () => {
+    const { clock, text, listener } = startSession({ "a.md": "Untouched.\n" });
+    clock.advance(5000);
+    expect(listener.results[0]).toMatchObject({
+      endReason: "idle",
+      penalty: null,
+      wordsDeleted: 0,
+    });
+    expect(text.docs["a.md"]).toBe("Untouched.\n");
+  });
+
+  it("holds the penalty while the note is closed", () => {
+    const { clock, text, listener, engine, type } = startSession({
+      "a.md": "",
+    });
+    type("Words written.");
+    text.closed.add("a.md");
+    clock.advance(6000);
+    expect(listener.results).toHaveLength(0);
+    expect(engine.isPenaltyPending()).toBe(true);
+
+    text.closed.delete("a.md");
+    clock.advance(1000);
+    expect(listener.results[0].endReason).toBe("idle");
+    expect(text.docs["a.md"]).toBe("");
+  });
+
+  it("holds the penalty until the writer returns under 'penalize'", () => {
+    const { clock, text, listener, engine, type } = startSession(
+      { "a.md": "" },
+      { focusPolicies: { window: "penalize", modal: "pause", pane: "count" } }
+    );
+    type("Words written.");
+    engine.handleFocusChange("window", true);
+    clock.advance(20000);
+    expect(listener.results).toHaveLength(0);
+
+    engine.handleFocusChange("window", false);
+    expect(listener.results[0].endReason).toBe("idle");
+    expect(text.docs["a.md"]).toBe("");
+  });
+
+  it("pauses the timers while away and spends a token", () => {
+    const { clock, listener, engine, type } = startSession(
+      { "a.md": "" },
+      { pauseTokens: 1 }
+    );
+    type("Words written.");
+    expect(engine.handleFocusChange("window", true)).toBe("pause");
+    clock.advance(60000);
+    expect(listener.results).toHaveLength(0);
+    expect(engine.getPausedMs()).toBe(60000);
+
+    engine.handleFocusChange("window", false);
+    expect(engine.getPauseTokensLeft()).toBe(0);
+    expect(engine.handleFocusChange("modal", true)).toBe("count");
+    clock.advance(5000);
+    expect(listener.results[0].endReason).toBe("idle");
+  });
+
+  it("lifts a blur once enough new words are written", () => {
+    const { clock, listener, engine, type } = startSession(
+      { "a.md": "" },
+      { penaltyType: "blur", softPenaltyReleaseWords: 3 }
+    );
+    type("Some words.");
+    clock.advance(5000);
+    expect(engine.getEffect()?.penaltyType).toBe("blur");
+    expect(listener.strikes).toHaveLength(1);
+
+    type(" one two");
+    clock.advance(1000);
+    expect(engine.getEffect()).not.toBeNull();
+    type(" three");
+    clock.advance(1000);
+    expect(engine.getEffect()).toBeNull();
+    expect(engine.isActive()).toBe(true);
+  });
+
+  it("ignores typing while locked and unlocks after the cooldown", () => {
+    const { clock, engine, type } = startSession(
+      { "a.md": "" },
+      { penaltyType: "lock", lockCooldownSeconds: 10 }
+    );
+    type("Some words.");
+    clock.advance(5000);
+    expect(engine.getEffect()?.penaltyType).toBe("lock");
+
+    type(" more");
+    expect(engine.getCharactersTyped()).toBe(11);
+    clock.advance(10000);
+    expect(engine.getEffect()).toBeNull();
+    expect(engine.getStrikes()).toBe(1);
+  });
+
+  it("fades the text the longer the writer stays idle", () => {
+    const { clock, engine, type } = startSession(
+      { "a.md": "" },
+      { penaltyType: "fade" }
+    );
+    type("Some words.");
+    clock.advance(7500);
+    expect(engine.getEffect()?.progress).toBeCloseTo(0.5, 1);
+    clock.advance(5000);
+    expect(engine.getEffect()?.progress).toBe(1);
+    type(" back");
+    expect(engine.getEffect()).toBeNull();
+  });
+});
+
+describe("handleActiveFileChange", () => {
+  it("adds notes in scope with their content as the snapshot", () => {
+    const { clock, text, engine, type } = startSession(
+      { "a.md": "", "b.md": "Already here.\n" },
+      { goalMode: "words", wordCountGoal: 100 }
+    );
+    type("one two");
+    expect(engine.handleActiveFileChange("b.md", true)).toBe(false);
+    type("three four five", "typed", "b.md");
+    clock.advance(1000);
+
+    expect(engine.getFilePaths()).toEqual(["a.md", "b.md"]);
+    expect(engine.getWordsWritten()).toBe(5);
+
+    // Penalties hit the note last typed in
+    clock.advance(4000);
+    expect(text.docs["a.md"]).toBe("one two");
+    expect(text.docs["b.md"]).toBe("Already here.\n");
+  });
+
+  it("stops the session when switching out of scope", () => {
+    const { clock, listener, engine } = startSession({ "a.md": "" });
+    expect(engine.handleActiveFileChange("elsewhere.md", false)).toBe(true);
+    expect(engine.isActive()).toBe(false);
+    expect(clock.timerCount).toBe(0);
+    clock.advance(10000);
+    expect(listener.results).toHaveLength(0);
+  });
+
+  it("ignores switching to something that isn't a note", () => {
+    const { engine } = startSession({ "a.md": "" });
+    expect(engine.handleActiveFileChange(null, false)).toBe(false);
+    expect(engine.isActive()).toBe(true);
+  });
+
+  it("skips notes in scope that aren't open", () => {
+    const { text, engine } = startSession({ "a.md": "", "b.md": "" });
+    text.closed.add("b.md");
+    engine.handleActiveFileChange("b.md", true);
+    expect(engine.getFilePaths()).toEqual(["a.md"]);
+  });
+});
+
+describe("pasted text", () => {
+  it("doesn't treat undo and redo as pasting or typing", () => {
+    const { clock, text, listener, engine, type } = startSession(
+      { "a.md": "" },
+      { goalMode: "words", wordCountGoal: 100 }
+    );
+    type("one two three four");
+    text.docs["a.md"] = "one two";
+    engine.handleChange("a.md", text.change("a.md", "restored"));
+    type(" three four", "restored");
+    expect(engine.getWordsWritten()).toBe(4);
+    expect(engine.getWordsPasted()).toBe(0);
+    expect(engine.getCharactersTyped()).toBe(18);
+
+    // Redoing doesn't keep the session alive
+    clock.advance(4000);
+    type(" five", "restored");
+    clock.advance(1000);
+    expect(listener.results[0].endReason).toBe("idle");
+  });
+
+  it("stops discounting pasted words once they're deleted", () => {
+    const { text, engine, type } = startSession({ "a.md": "Before.\n" });
+    type("one two three four five", "pasted");
+    expect(engine.getWordsWritten()).toBe(0);
+
+    text.docs["a.md"] = "Before.\n";
+    engine.handleChange("a.md", text.change("a.md", "deleted"));
+    type("six seven");
+    expect(engine.getWordsWritten()).toBe(2);
+    expect(engine.getWordsPasted()).toBe(0);
+  });
+
+  it("never leaves progress negative after a penalty", () => {
+    const { clock, listener, engine, type } = startSession(
+      { "a.md": "" },
+      { penaltyType: "escalating", escalationLadder: ["all", "all"] }
+    );
+    type("one two three four five", "pasted");
+    type(" six");
+    clock.advance(5000);
+    expect(listener.strikes).toHaveLength(1);
+    expect(engine.getWordsWritten()).toBe(0);
+    expect(engine.getWordsPasted()).toBe(0);
+  });
+});
+
+describe("resuming", () => {
+  it("carries on from the interrupted session's counts", () => {
+    const { clock, listener, type } = startSession(
+      { "a.md": "Old.\n\nSaved words." },
+      {},
+      "a.md",
+      {
+        initialContent: "Old.\n\n",
+        elapsedMs: 60000,
+        wordsDeleted: 7,
+        charactersTyped: 12,
+        charactersPasted: 0,
+        wordsPasted: 0,
+        strikes: 0,
+        pauseTokensUsed: 0,
+        revisionMsUsed: 0,
+      }
+    );
+    type(" More");
+    clock.advance(5000);
+    expect(listener.results[0]).toMatchObject({
+      wordsAtStart: 1,
+      wordsDeleted: 10,
+      charactersTyped: 17,
+      durationSeconds: 65,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import type { SessionRecord } from "../stats";
+import { mergeSessions, parseSessions, sessionsToCsv } from "../exchange";
+import { makeConfig } from "./helpers";
+
+// Config the importing plugin would fill in
+const DEFAULTS = makeConfig({ durationMinutes: 25, wordCountGoal: 500 });
+
+const SESSION: SessionRecord = {
+  timestamp: 1700000000000,
+  durationSeconds: 300,
+  completed: true,
+  wordsAtStart: 10,
+  wordsAtEnd: 260,
+  netWords: 250,
+  wordsDeleted: 4,
+  charactersTyped: 1400,
+  charactersPasted: 0,
+  wordsPasted: 0,
+  filePath: "Drafts/a, b.md",
+  otherFiles: ["Drafts/c.md"],
+  strikes: 1,
+  endReason: "time-goal",
+  prompt: 'Write about "home"',
+  config: makeConfig({ goalMode: "words-within-time", penaltyType: "blur" }),
+};
+
+describe("CSV export", () => {
+  it("round trips what the stats read back", () => {
+    const [session] = parseSessions(sessionsToCsv([SESSION]), "csv", DEFAULTS);
+    const { config, ...rest } = SESSION;
+    expect(session).toMatchObject(rest);
+    expect(session.config).toEqual({
+      ...DEFAULTS,
+      goalMode: "words-within-time",
+      penaltyType: "blur",
+    });
+  });
+
+  it("keeps whether a session was abandoned", () => {
+    const abandoned = { ...SESSION, abandoned: true, endReason: "abandoned" };
+    const [session] = parseSessions(
+      sessionsToCsv([abandoned as SessionRecord]),
+      "csv",
+      DEFAULTS
+    );
+    expect(session.abandoned).toBe(true);
+    expect(session.endReason).toBe("abandoned");
+  });
+
+  it("leaves the config out when the goal wasn't recorded", () => {
+    const [session] = parseSessions(
+      sessionsToCsv([{ ...SESSION, config: undefined }]),
+      "csv",
+      DEFAULTS
+    );
+    expect(session.config).toBeUndefined();
+  });
+});
+
+describe("JSON import", () => {
+  const parse = (sessions: unknown[]) =>
+    parseSessions(JSON.stringify(sessions), "json", DEFAULTS);
+
+  it("fills in missing counts and config fields", () => {
+    const [session] = parse([
+      { timestamp: 1700000000000, netWords: 12, config: { goalMode: "words" } },
+    ]);
+    expect(session).toMatchObject({
+      netWords: 12,
+      durationSeconds: 0,
+      charactersPasted: 0,
+      completed: false,
+    });
+    expect(session.config).toEqual({ ...DEFAULTS, goalMode: "words" });
+  });
+
+  it("rejects values this version doesn't know", () => {
+    expect(() => parse([{ timestamp: 1, endReason: "exploded" }])).toThrow(
+      'Unknown session end reason "exploded"'
+    );
+    expect(() =>
+      parse([{ timestamp: 1, config: { goalMode: "pages" } }])
+    ).toThrow('Unknown goal mode "pages"');
+    expect(() =>
+      parse([{ timestamp: 1, config: { penaltyType: "shock" } }])
+    ).toThrow('Unknown penalty "shock"');
+    expect(() => parse([{ netWords: 3 }])).toThrow("Invalid session date");
+  });
+});
+
+describe("mergeSessions", () => {
+  it("skips sessions that ended at the same time in the same note", () => {
+    const later = { ...SESSION, timestamp: SESSION.timestamp + 1 };
+    const { sessions, added, skipped } = mergeSessions(
+      [later],
+      [SESSION, { ...later }]
+    );
+    expect(sessions).toEqual([SESSION, later]);
+    expect({ added, skipped }).toEqual({ added: 1, skipped: 1 });
+  });
+});
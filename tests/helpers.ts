@@ -0,0 +1,190 @@
+import type { Clock, SessionResume, TextAdapter, TextChange } from "../engine";
+import type { SessionConfig } from "../modal";
+import type { InputKind } from "../integrity";
+import {
+  PenaltyEffect,
+  PenaltyResult,
+  SessionEngine,
+  SessionEngineListener,
+  SessionResult,
+} from "../engine";
+import { countWords } from "../words";
+
+/**
+ * Clock whose time only moves when a test advances it. Intervals fire in
+ * order, as often as they would have in real time.
+ */
+export class FakeClock implements Clock {
+  time = 0;
+  private nextId = 1;
+  private timers = new Map<
+    number,
+    { at: number; every: number; callback: () => void }
+  >();
+
+  now(): number {
+    return this.time;
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, every: ms, callback });
+    return id;
+  }
+
+  clearInterval(id: number) {
+    this.timers.delete(id);
+  }
+
+  get timerCount(): number {
+    return this.timers.size;
+  }
+
+  advance(ms: number) {
+    const end = this.time + ms;
+    for (;;) {
+      let nextId: number | null = null;
+      for (const [id, timer] of this.timers) {
+        if (
+          timer.at <= end &&
+          (nextId === null || timer.at < this.timers.get(nextId).at)
+        ) {
+          nextId = id;
+        }
+      }
+      if (nextId === null) {
+        break;
+      }
+      const timer = this.timers.get(nextId);
+      this.time = timer.at;
+      timer.at += timer.every;
+      timer.callback();
+    }
+    this.time = end;
+  }
+}
+
+/**
+ * Notes held in memory. Closed notes keep their text but read as null, the
+ * way an editor that isn't open does.
+ */
+export class MemoryText implements TextAdapter {
+  docs: Record<string, string>;
+  closed = new Set<string>();
+
+  constructor(docs: Record<string, string>) {
+    this.docs = docs;
+  }
+
+  getText(path: string): string | null {
+    return path in this.docs && !this.closed.has(path) ? this.docs[path] : null;
+  }
+
+  isOpen(path: string): boolean {
+    return this.getText(path) !== null;
+  }
+
+  countWords(text: string): number {
+    return countWords(text);
+  }
+
+  replaceRange(path: string, text: string, from: number, to: number) {
+    const doc = this.docs[path];
+    this.docs[path] = doc.slice(0, from) + text + doc.slice(to);
+  }
+
+  change(path: string, input: InputKind = "typed"): TextChange {
+    return {
+      length: this.docs[path].length,
+      wordCount: countWords(this.docs[path]),
+      input,
+    };
+  }
+}
+
+export function makeConfig(overrides: Partial<SessionConfig> = {}) {
+  const config: SessionConfig = {
+    goalMode: "time",
+    durationMinutes: 5,
+    wordCountGoal: null,
+    penaltyType: "all",
+    escalationLadder: ["sentence", "paragraph", "all"],
+    softPenaltyReleaseWords: 10,
+    lockCooldownSeconds: 15,
+    scope: { type: "file", files: [], folder: "", tag: "" },
+    focusPolicies: { window: "pause", modal: "pause", pane: "count" },
+    pauseTokens: 3,
+    pasteCountsTowardGoal: false,
+    pasteResetsTimer: false,
+    activityPolicy: "additions",
+    revisionBudgetSeconds: 60,
+    idleTimeoutSeconds: 5,
+    warningThresholdSeconds: 2,
+    practiceMode: true,
+    presetName: null,
+    prompt: null,
+  };
+  return { ...config, ...overrides };
+}
+
+/**
+ * Records everything the engine tells its listener.
+ */
+export class RecordingListener implements SessionEngineListener {
+  updates = 0;
+  warnings: (number | null)[] = [];
+  strikes: PenaltyResult[] = [];
+  effects: (PenaltyEffect | null)[] = [];
+  results: SessionResult[] = [];
+
+  onUpdate() {
+    this.updates++;
+  }
+
+  onWarning(progress: number | null) {
+    this.warnings.push(progress);
+  }
+
+  onStrike(penalty: PenaltyResult) {
+    this.strikes.push(penalty);
+  }
+
+  onEffect(effect: PenaltyEffect | null) {
+    this.effects.push(effect);
+  }
+
+  onEnd(result: SessionResult) {
+    this.results.push(result);
+  }
+}
+
+/**
+ * An engine over in-memory notes with a fake clock, started on `path`, or
+ * resumed from an interrupted session.
+ */
+export function startSession(
+  docs: Record<string, string>,
+  overrides: Partial<SessionConfig> = {},
+  path = Object.keys(docs)[0],
+  resume?: SessionResume
+) {
+  const clock = new FakeClock();
+  const text = new MemoryText(docs);
+  const listener = new RecordingListener();
+  const engine = new SessionEngine(
+    path,
+    makeConfig(overrides),
+    text,
+    clock,
+    listener
+  );
+  engine.start(resume);
+
+  // Append to a note and report it, as the editor would
+  const type = (added: string, input: InputKind = "typed", file = path) => {
+    text.docs[file] += added;
+    engine.handleChange(file, text.change(file, input));
+  };
+
+  return { clock, text, listener, engine, type };
+}
@@ -0,0 +1,114 @@
+import { EditorState, Transaction } from "@codemirror/state";
+import type { ViewUpdate } from "@codemirror/view";
+import { classifyInput, classifyTransaction } from "../integrity";
+
+// A transaction inserting `insert` at the end of `doc`, tagged with a user
+// event unless it's undefined
+function insertAtEnd(doc: string, insert: string, userEvent?: string) {
+  const state = EditorState.create({ doc });
+  return state.update({
+    changes: { from: doc.length, insert },
+    annotations:
+      userEvent === undefined ? [] : Transaction.userEvent.of(userEvent),
+  });
+}
+
+describe("classifyTransaction", () => {
+  it("classifies keyboard input as typing", () => {
+    expect(classifyTransaction(insertAtEnd("Hello", " w", "input.type"))).toBe(
+      "typed"
+    );
+    expect(classifyTransaction(insertAtEnd("Hello", "\n- ", "input"))).toBe(
+      "typed"
+    );
+    expect(
+      classifyTransaction(insertAtEnd("", "日本", "input.type.compose"))
+    ).toBe("typed");
+  });
+
+  it("classifies pasting and dropping as pasted", () => {
+    expect(
+      classifyTransaction(insertAtEnd("", "Some text", "input.paste"))
+    ).toBe("pasted");
+    expect(
+      classifyTransaction(insertAtEnd("", "Some text", "input.drop"))
+    ).toBe("pasted");
+  });
+
+  it("classifies autocomplete as inserted", () => {
+    expect(
+      classifyTransaction(insertAtEnd("ab", "solutely", "input.complete"))
+    ).toBe("inserted");
+  });
+
+  it("classifies undo and redo as restored", () => {
+    expect(classifyTransaction(insertAtEnd("", "Back again", "undo"))).toBe(
+      "restored"
+    );
+    expect(classifyTransaction(insertAtEnd("", "Back again", "redo"))).toBe(
+      "restored"
+    );
+  });
+
+  it("classifies deleting as deleted", () => {
+    const state = EditorState.create({ doc: "Some words" });
+    const tr = state.update({
+      changes: { from: 4, to: 10 },
+      userEvent: "delete.backward",
+    });
+    expect(classifyTransaction(tr)).toBe("deleted");
+  });
+
+  it("only treats large changes with no user event as inserted", () => {
+    expect(classifyTransaction(insertAtEnd("Line", "\n"))).toBe("typed");
+    expect(classifyTransaction(insertAtEnd("Word", " and"))).toBe("typed");
+    expect(
+      classifyTransaction(
+        insertAtEnd("", "## Template heading\n\n- Item one\n- Item two\n")
+      )
+    ).toBe("inserted");
+  });
+
+  it("treats other commands as typing", () => {
+    expect(
+      classifyTransaction(
+        insertAtEnd("", "A longer line from a text command", "select")
+      )
+    ).toBe("typed");
+  });
+
+  it("spots a held-down key", () => {
+    expect(classifyTransaction(insertAtEnd("aaa", "a", "input.type"))).toBe(
+      "repeated"
+    );
+    expect(classifyTransaction(insertAtEnd("baa", "a", "input.type"))).toBe(
+      "typed"
+    );
+  });
+});
+
+describe("classifyInput", () => {
+  it("picks the most suspect kind in an update", () => {
+    const typed = insertAtEnd("", "a", "input.type");
+    const pasted = typed.state.update({
+      changes: { from: 1, insert: "pasted text" },
+      userEvent: "input.paste",
+    });
+    const update = { transactions: [typed, pasted] } as unknown as ViewUpdate;
+    expect(classifyInput(update)).toBe("pasted");
+  });
+
+  it("ignores transactions that don't change the note", () => {
+    const state = EditorState.create({ doc: "Text" });
+    const select = state.update({
+      selection: { anchor: 0 },
+      userEvent: "select",
+    });
+    const typed = select.state.update({
+      changes: { from: 4, insert: "s" },
+      userEvent: "input.type",
+    });
+    const update = { transactions: [select, typed] } as unknown as ViewUpdate;
+    expect(classifyInput(update)).toBe("typed");
+  });
+});
@@ -0,0 +1,206 @@
+import type { PenaltyStep } from "../settings";
+import { findSessionRegion, planPenalty } from "../penalty";
+
+// The note left after a penalty, given its content when the session began
+function applyPenalty(
+  initial: string,
+  current: string,
+  penaltyType: PenaltyStep
+): string {
+  const region = findSessionRegion(initial, current);
+  const ranges = planPenalty(current, region, penaltyType);
+  let result = current;
+  for (const range of ranges.reverse()) {
+    result = result.slice(0, range.from) + result.slice(range.to);
+  }
+  return result;
+}
+
+describe("findSessionRegion", () => {
+  it("finds text typed at the end", () => {
+    expect(findSessionRegion("A.", "A. New.")).toEqual({ from: 2, to: 7 });
+  });
+
+  it("finds text typed in the middle", () => {
+    expect(findSessionRegion("A. C.", "A. B. C.")).toEqual({ from: 2, to: 5 });
+  });
+
+  it("leaves the separator before the following text outside the region", () => {
+    const current = "A.\n\nNew stuff.\n\nB.\n";
+    const region = findSessionRegion("A.\n\nB.\n", current);
+    expect(current.slice(region.from, region.to)).toBe("\n\nNew stuff.");
+  });
+});
+
+describe("penalties between paragraphs", () => {
+  const initial = "A.\n\nB.\n";
+
+  it("removes the last sentence and keeps the separator", () => {
+    expect(
+      applyPenalty(initial, "A.\n\nNew stuff. More here.\n\nB.\n", "sentence")
+    ).toBe("A.\n\nNew stuff.\n\nB.\n");
+  });
+
+  it("removes the last paragraph and keeps the separator", () => {
+    expect(
+      applyPenalty(initial, "A.\n\nP1.\n\nP2 text.\n\nB.\n", "paragraph")
+    ).toBe("A.\n\nP1.\n\nB.\n");
+  });
+
+  it("removes the last word and keeps the separator", () => {
+    expect(applyPenalty(initial, "A.\n\nP1.\n\nP2 text.\n\nB.\n", "word")).toBe(
+      "A.\n\nP1.\n\nP2\n\nB.\n"
+    );
+  });
+
+  it("removes everything written and keeps the separator", () => {
+    expect(applyPenalty(initial, "A.\n\nP1.\n\nP2 text.\n\nB.\n", "all")).toBe(
+      initial
+    );
+  });
+});
+
+describe("penalties before pre-existing text", () => {
+  it("keeps the separator when earlier session text is kept", () => {
+    expect(applyPenalty("A.\nB.\n", "A.\nOne. Two.\n\nB.\n", "sentence")).toBe(
+      "A.\nOne.\n\nB.\n"
+    );
+  });
+
+  it("removes the whitespace typed with the session text", () => {
+    expect(applyPenalty("A.\nB.\n", "A.\nOne. Two.\n\nB.\n", "all")).toBe(
+      "A.\nB.\n"
+    );
+  });
+});
+
+// Session text typed after "Intro.\n\n", and what each penalty leaves of it
+const FIXTURES: {
+  name: string;
+  text: string;
+  sentence: string;
+  word: string;
+}[] = [
+  {
+    name: "abbreviations",
+    text: "I met Dr. Smith at St. Paul's. Mr. J. R. Jones came too.",
+    sentence: "I met Dr. Smith at St. Paul's.",
+    word: "I met Dr. Smith at St. Paul's. Mr. J. R. Jones came",
+  },
+  {
+    name: "decimals",
+    text: "It cost 3.50 today. Prices rose 2.5% since.",
+    sentence: "It cost 3.50 today.",
+    word: "It cost 3.50 today. Prices rose 2.5%",
+  },
+  {
+    name: "ellipses",
+    text: "Wait... and then nothing. Then… Silence.",
+    sentence: "Wait... and then nothing. Then…",
+    word: "Wait... and then nothing. Then…",
+  },
+  {
+    name: "quotes",
+    text: 'She said "Stop." He didn\'t. "Why?" she asked.',
+    sentence: 'She said "Stop." He didn\'t. "Why?"',
+    word: 'She said "Stop." He didn\'t. "Why?" she',
+  },
+  {
+    name: "URLs",
+    text: "See https://example.com/a.b.html for more. It helps.",
+    sentence: "See https://example.com/a.b.html for more.",
+    word: "See https://example.com/a.b.html for more. It",
+  },
+  {
+    name: "links",
+    text: "Read [the v1.2 notes](https://x.io/v1.2). Then [[A. Note]] too.",
+    sentence: "Read [the v1.2 notes](https://x.io/v1.2).",
+    word: "Read [the v1.2 notes](https://x.io/v1.2). Then [[A. Note]]",
+  },
+  {
+    name: "lists",
+    text: "- First item.\n- Second item. More.",
+    sentence: "- First item.\n- Second item.",
+    word: "- First item.\n- Second item.",
+  },
+  {
+    name: "task lists",
+    text: "- [ ] Buy milk\n- [x] Done",
+    sentence: "- [ ] Buy milk",
+    word: "- [ ] Buy milk",
+  },
+  {
+    name: "callouts",
+    text: "> [!note] Title\n> Body one. Body two.",
+    sentence: "> [!note] Title\n> Body one.",
+    word: "> [!note] Title\n> Body one. Body",
+  },
+  {
+    name: "headings",
+    text: "## Heading\n\nText here.",
+    sentence: "## Heading",
+    word: "## Heading\n\nText",
+  },
+  {
+    name: "fences",
+    text: "Before.\n\n```js\nlet a = 1. b = 2.\n```",
+    sentence: "```js\nlet a = 1. b = 2.\n```",
+    word: "```js\nlet a = 1. b = 2.\n```",
+  },
+  {
+    name: "embeds",
+    text: "Look.\n\n![[image.png]]",
+    sentence: "![[image.png]]",
+    word: "![[image.png]]",
+  },
+  {
+    name: "math",
+    text: "Proof.\n\n$$\nx = 1.\n$$\n\nDone now.",
+    sentence: "Proof.\n\n$$\nx = 1.\n$$",
+    word: "Proof.\n\n$$\nx = 1.\n$$\n\nDone",
+  },
+];
+
+describe.each(FIXTURES)("$name", ({ text, sentence, word }) => {
+  const initial = "Intro.\n\n";
+  const current = initial + text;
+
+  it("removes the last sentence", () => {
+    expect(applyPenalty(initial, current, "sentence")).toBe(
+      (initial + sentence).trimEnd()
+    );
+  });
+
+  it("removes the last word", () => {
+    expect(applyPenalty(initial, current, "word")).toBe(
+      (initial + word).trimEnd()
+    );
+  });
+
+  it("leaves the text before the session alone", () => {
+    expect(applyPenalty(initial, current, "all").startsWith("Intro.")).toBe(
+      true
+    );
+  });
+
+  it("works the same in the middle of a note", () => {
+    const after = "\n\nOutro.\n";
+    expect(applyPenalty(initial + after, current + after, "sentence")).toBe(
+      (initial + sentence).trimEnd() + after
+    );
+  });
+});
+
+describe("frontmatter", () => {
+  it("is never removed, even when written this session", () => {
+    expect(applyPenalty("", "---\ntags: a. b.\n---\nText here.", "all")).toBe(
+      "---\ntags: a. b.\n---"
+    );
+  });
+
+  it("is never removed while still open", () => {
+    expect(applyPenalty("", "---\ntitle: One. Two.", "sentence")).toBe(
+      "---\ntitle: One. Two."
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { countWords, DEFAULT_WORD_COUNT_OPTIONS, WordCounter } from "../words";
+
+// Small seeded generator so every run edits the same document the same way
+function random(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+}
+
+const LINES = [
+  "Some prose with a [link](https://example.com) and a [[wikilink|label]].",
+  "- A list item about well-known things",
+  "",
+  "```",
+  "code that isn't counted",
+  "```",
+  "%% a comment %% then words",
+  "# A heading",
+];
+
+function makeLines(count: number, next: () => number): string[] {
+  return Array.from(
+    { length: count },
+    () => LINES[Math.floor(next() * LINES.length)]
+  );
+}
+
+describe("WordCounter", () => {
+  it("counts the same as a full count after every edit", () => {
+    const next = random(1);
+    let lines = makeLines(500, next);
+    let counter = WordCounter.count(
+      lines.length,
+      (line) => lines[line],
+      DEFAULT_WORD_COUNT_OPTIONS
+    );
+    for (let i = 0; i < 300; i++) {
+      const from = Math.floor(next() * lines.length);
+      const removed = Math.floor(next() * 3);
+      const added = makeLines(Math.floor(next() * 3), next);
+      // Always replace at least one line, as an edit within a line does
+      const oldTo = Math.min(from + removed, lines.length - 1);
+      lines = [
+        ...lines.slice(0, from),
+        ...added,
+        next() < 0.5 ? "typed words" : "```",
+        ...lines.slice(oldTo + 1),
+      ];
+      counter = counter.update(
+        from,
+        oldTo,
+        from + added.length,
+        (line) => lines[line]
+      );
+      expect(counter.words).toBe(countWords(lines.join("\n")));
+    }
+  });
+
+  it("keeps counting a long note correctly line by line", () => {
+    const next = random(2);
+    const lines = makeLines(5000, next);
+    const getLine = (line: number) => lines[line];
+    let counter = WordCounter.count(
+      lines.length,
+      getLine,
+      DEFAULT_WORD_COUNT_OPTIONS
+    );
+    for (let i = 0; i < 50; i++) {
+      const line = Math.floor(next() * lines.length);
+      lines[line] += " word";
+      counter = counter.update(line, line, line, getLine);
+    }
+    expect(counter.words).toBe(countWords(lines.join("\n")));
+  });
+});
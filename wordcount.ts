@@ -0,0 +1,65 @@
+import { StateField, Text } from "@codemirror/state";
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { WordCountOptions, WordCounter } from "./words";
+
+function countDoc(doc: Text, options: WordCountOptions): WordCounter {
+  return WordCounter.count(
+    doc.lines,
+    (line) => doc.line(line + 1).text,
+    options
+  );
+}
+
+/**
+ * Editor extension that keeps a word count of the note in editor state and
+ * reports each change with the note's new length and word count. The count
+ * is updated from each transaction's change set, so typing in a long note
+ * only recounts the lines it touches.
+ */
+export function wordCountExtension(
+  options: WordCountOptions,
+  onChange: (update: ViewUpdate, length: number, words: number) => void
+) {
+  const wordCountField = StateField.define<WordCounter>({
+    create: (state) => countDoc(state.doc, options),
+    update(counter, tr) {
+      if (!tr.docChanged) {
+        return counter;
+      }
+      // Recount one span from the first change to the last
+      let fromA = -1;
+      let toA = 0;
+      let toB = 0;
+      tr.changes.iterChangedRanges(
+        (changeFromA, changeToA, changeFromB, changeToB) => {
+          if (fromA === -1) {
+            fromA = changeFromA;
+          }
+          toA = changeToA;
+          toB = changeToB;
+        }
+      );
+      const before = tr.startState.doc;
+      const doc = tr.newDoc;
+      return counter.update(
+        before.lineAt(fromA).number - 1,
+        before.lineAt(toA).number - 1,
+        doc.lineAt(toB).number - 1,
+        (line) => doc.line(line + 1).text
+      );
+    },
+  });
+
+  return [
+    wordCountField,
+    EditorView.updateListener.of((update) => {
+      if (update.docChanged) {
+        onChange(
+          update,
+          update.state.doc.length,
+          update.state.field(wordCountField).words
+        );
+      }
+    }),
+  ];
+}
@@ -0,0 +1,286 @@
+/**
+ * Word counting shared by word goals, the status bar and session stats.
+ * Words are split on whitespace, found with Unicode word segmentation, or
+ * counted per character for Chinese, Japanese and Korean text. When Markdown
+ * is excluded only prose counts: frontmatter, code blocks, comments, link
+ * targets and bare URLs are skipped, as are markers such as "-" or "#" that
+ * contain no letters or digits.
+ *
+ * Counts are kept per line together with the block a line starts in, so an
+ * edit only recounts the lines it touched plus any that follow whose block
+ * changed, e.g. after typing an opening code fence.
+ */
+
+export type WordCountMethod = "whitespace" | "segmenter" | "cjk";
+
+export const WORD_COUNT_METHOD_LABELS: Record<WordCountMethod, string> = {
+  whitespace: "Words separated by spaces",
+  segmenter: "Unicode word segmentation",
+  cjk: "Characters for CJK, words for the rest",
+};
+
+export interface WordCountOptions {
+  method: WordCountMethod;
+  excludeMarkdown: boolean;
+  // "well-known" is one word instead of two. Dashes always separate words.
+  hyphenatedAsOne: boolean;
+}
+
+export const DEFAULT_WORD_COUNT_OPTIONS: WordCountOptions = {
+  method: "whitespace",
+  excludeMarkdown: true,
+  hyphenatedAsOne: true,
+};
+
+// Block a line starts in: "" for prose, "frontmatter", "%%" or "<!--" for an
+// open comment, or the marker of an open code fence such as "```"
+type LineContext = string;
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const LINK_TARGET = /\]\([^)]*\)/g;
+const WIKILINK = /\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g;
+const URL = /<?\b[a-z][a-z0-9+.-]*:\/\/[^\s>]*>?/gi;
+const WORD = /[\p{L}\p{N}]/u;
+const CJK =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// Created on first use; null where Intl.Segmenter isn't available
+let segmenter: Intl.Segmenter | null | undefined;
+
+function getSegmenter(): Intl.Segmenter | null {
+  if (segmenter === undefined) {
+    segmenter =
+      typeof Intl.Segmenter === "function"
+        ? new Intl.Segmenter(undefined, { granularity: "word" })
+        : null;
+  }
+  return segmenter;
+}
+
+function countTokens(
+  text: string,
+  options: WordCountOptions,
+  prose: boolean
+): number {
+  const separator = options.hyphenatedAsOne ? /[\s—–]+/ : /[\s—–-]+/;
+  let count = 0;
+  for (const token of text.split(separator)) {
+    if (prose ? WORD.test(token) : token.length > 0) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function countSegments(text: string, options: WordCountOptions): number {
+  let count = 0;
+  // Whether the previous segment was a word, or a hyphen straight after one
+  let afterWord = false;
+  let afterHyphen = false;
+  for (const { segment, isWordLike } of getSegmenter().segment(text)) {
+    if (isWordLike) {
+      if (!(options.hyphenatedAsOne && afterHyphen)) {
+        count++;
+      }
+      afterWord = true;
+      afterHyphen = false;
+    } else {
+      afterHyphen = afterWord && segment === "-";
+      afterWord = false;
+    }
+  }
+  return count;
+}
+
+function countText(
+  text: string,
+  options: WordCountOptions,
+  prose: boolean
+): number {
+  if (prose) {
+    text = text
+      .replace(LINK_TARGET, "]")
+      .replace(WIKILINK, "$1")
+      .replace(URL, " ");
+  }
+  if (options.method === "segmenter" && getSegmenter()) {
+    return countSegments(text, options);
+  }
+  if (options.method === "cjk") {
+    const characters = text.match(CJK)?.length ?? 0;
+    return characters + countTokens(text.replace(CJK, " "), options, prose);
+  }
+  return countTokens(text, options, prose);
+}
+
+/**
+ * Count the words on one line, given the block it starts in. Returns the
+ * block the next line starts in.
+ */
+function scanLine(
+  text: string,
+  context: LineContext,
+  firstLine: boolean,
+  options: WordCountOptions
+): { words: number; next: LineContext } {
+  if (!options.excludeMarkdown) {
+    return { words: countText(text, options, false), next: "" };
+  }
+  if (context === "frontmatter") {
+    return { words: 0, next: /^(---|\.\.\.)$/.test(text) ? "" : context };
+  }
+  if (context !== "" && context !== "%%" && context !== "<!--") {
+    // Inside a code fence, closed by a fence of the same kind and length
+    const closing = text.match(FENCE);
+    const closes =
+      closing &&
+      closing[1][0] === context[0] &&
+      closing[1].length >= context.length &&
+      text.trim() === closing[1];
+    return { words: 0, next: closes ? "" : context };
+  }
+  if (context === "") {
+    // YAML frontmatter must start on the first line
+    if (firstLine && text === "---") {
+      return { words: 0, next: "frontmatter" };
+    }
+    const fence = text.match(FENCE);
+    if (fence) {
+      return { words: 0, next: fence[1] };
+    }
+  }
+
+  // Prose, with comments that can open and close anywhere on the line
+  let words = 0;
+  let pos = 0;
+  while (pos < text.length) {
+    if (context === "") {
+      const obsidian = text.indexOf("%%", pos);
+      const html = text.indexOf("<!--", pos);
+      const open =
+        obsidian === -1
+          ? html
+          : html === -1
+          ? obsidian
+          : Math.min(obsidian, html);
+      words += countText(
+        text.slice(pos, open === -1 ? text.length : open),
+        options,
+        true
+      );
+      if (open === -1) {
+        break;
+      }
+      context = open === obsidian ? "%%" : "<!--";
+      pos = open + context.length;
+    } else {
+      const closer = context === "%%" ? "%%" : "-->";
+      const close = text.indexOf(closer, pos);
+      if (close === -1) {
+        break;
+      }
+      context = "";
+      pos = close + closer.length;
+    }
+  }
+  return { words, next: context };
+}
+
+/**
+ * Running word count of a document, updated line by line as it's edited.
+ * Counters are immutable: `update` returns a new one, so a counter can be
+ * held in editor state.
+ */
+export class WordCounter {
+  readonly words: number;
+  readonly options: WordCountOptions;
+  // Block each line starts in, and its word count
+  private contexts: LineContext[];
+  private counts: number[];
+
+  private constructor(
+    options: WordCountOptions,
+    contexts: LineContext[],
+    counts: number[],
+    words: number
+  ) {
+    this.options = options;
+    this.contexts = contexts;
+    this.counts = counts;
+    this.words = words;
+  }
+
+  /**
+   * Count a whole document, given its number of lines and a way to read
+   * each line (0-based).
+   */
+  static count(
+    lineCount: number,
+    getLine: (line: number) => string,
+    options: WordCountOptions
+  ) {
+    return new WordCounter(options, [], [], 0).update(
+      0,
+      -1,
+      lineCount - 1,
+      getLine
+    );
+  }
+
+  /**
+   * Count the document after lines `from` to `oldTo` (inclusive, 0-based)
+   * were replaced by lines `from` to `newTo`. `getLine` reads lines of the
+   * new document.
+   */
+  update(
+    from: number,
+    oldTo: number,
+    newTo: number,
+    getLine: (line: number) => string
+  ): WordCounter {
+    const contexts = this.contexts.slice(0, from);
+    const counts = this.counts.slice(0, from);
+    let words = this.words;
+    for (let i = from; i <= oldTo; i++) {
+      words -= this.counts[i];
+    }
+
+    let context = from > 0 ? this.contexts[from] : "";
+    const scan = (line: number) => {
+      const result = scanLine(getLine(line), context, line === 0, this.options);
+      contexts.push(context);
+      counts.push(result.words);
+      words += result.words;
+      context = result.next;
+    };
+    for (let line = from; line <= newTo; line++) {
+      scan(line);
+    }
+
+    // Lines after the edit keep their counts unless the block they start
+    // in changed
+    let old = oldTo + 1;
+    while (old < this.contexts.length && this.contexts[old] !== context) {
+      words -= this.counts[old];
+      scan(contexts.length);
+      old++;
+    }
+    return new WordCounter(
+      this.options,
+      contexts.concat(this.contexts.slice(old)),
+      counts.concat(this.counts.slice(old)),
+      words
+    );
+  }
+}
+
+/**
+ * Count the words in a note.
+ */
+export function countWords(
+  text: string,
+  options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS
+): number {
+  const lines = text.split("\n");
+  return WordCounter.count(lines.length, (line) => lines[line], options).words;
+}